@@ -388,6 +388,174 @@ function benchmarkPatternAddition() {
   }
 }
 
+/**
+ * Benchmark building a wide tree with `URLPatternList.from()` against adding
+ * patterns one at a time
+ */
+function benchmarkBulkAddition() {
+  console.log('\n📦 Benchmarking bulk addition');
+  console.log('='.repeat(50));
+
+  for (const width of [500, 2000]) {
+    const patterns: Array<{pattern: string; value: string}> = [];
+    for (let i = 0; i < width; i++) {
+      patterns.push({pattern: `/api/resource${i}/:id`, value: `item-${i}`});
+    }
+
+    const bulkFn = () => {
+      URLPatternList.from(
+        patterns.map(({pattern, value}) => [
+          new URLPattern({pathname: pattern}),
+          value,
+        ]),
+      );
+    };
+
+    const sequentialFn = () => {
+      const list = new URLPatternList<string>();
+      for (const {pattern, value} of patterns) {
+        list.addPattern(new URLPattern({pathname: pattern}), value);
+      }
+    };
+
+    const results = benchmarkRoundRobin(bulkFn, sequentialFn, 20);
+    const speedup = results.naive.avgTimeMs / results.optimized.avgTimeMs;
+
+    console.log(`\n${width} siblings:`);
+    console.log(`  from():       ${results.optimized.avgTimeMs.toFixed(2)}ms`);
+    console.log(`  addPattern(): ${results.naive.avgTimeMs.toFixed(2)}ms`);
+    console.log(`  Speedup:      ${speedup.toFixed(2)}x faster`);
+  }
+}
+
+/**
+ * Benchmark matching in a wide tree, where one node has hundreds of fixed
+ * children, like an API with many resources under `/api`
+ */
+function benchmarkWideTree() {
+  console.log('\n🌳 Benchmarking wide trees');
+  console.log('='.repeat(50));
+
+  for (const width of [50, 400]) {
+    const patterns: Array<{pattern: string; value: string}> = [];
+    for (let i = 0; i < width; i++) {
+      patterns.push({pattern: `/api/resource${i}/:id`, value: `item-${i}`});
+      patterns.push({pattern: `/api/resource${i}`, value: `list-${i}`});
+    }
+    const testPaths: string[] = [];
+    for (let i = 0; i < width; i += 7) {
+      testPaths.push(`/api/resource${i}/42`, `/api/resource${i}`);
+    }
+    testPaths.push('/api/unknown/42');
+
+    const optimizedList = setupList(
+      () => new URLPatternList<string>(),
+      patterns,
+    );
+    const naiveList = setupList(
+      () => new NaiveURLPatternList<string>(),
+      patterns,
+    );
+
+    const optimizedFn = () => {
+      const path = testPaths[Math.floor(Math.random() * testPaths.length)];
+      optimizedList.match(path, 'https://example.com');
+    };
+
+    const naiveFn = () => {
+      const path = testPaths[Math.floor(Math.random() * testPaths.length)];
+      naiveList.match(path, 'https://example.com');
+    };
+
+    const results = benchmarkRoundRobin(optimizedFn, naiveFn, 2000);
+    const speedup = results.optimized.opsPerSecond / results.naive.opsPerSecond;
+
+    console.log(`\n${width} siblings:`);
+    console.log(
+      `  Optimized: ${results.optimized.opsPerSecond.toFixed(0).padStart(8)} ops/sec`,
+    );
+    console.log(
+      `  Naive:     ${results.naive.opsPerSecond.toFixed(0).padStart(8)} ops/sec`,
+    );
+    console.log(`  Speedup:   ${speedup.toFixed(2)}x faster`);
+  }
+}
+
+/**
+ * Benchmark matching with a compiled list against the tree-walking list
+ */
+function benchmarkCompiled() {
+  console.log('\n⚙️  Benchmarking compile()');
+  console.log('='.repeat(50));
+
+  for (const count of [100, 2000]) {
+    const patterns = generatePatterns(count);
+    const testPaths = generateTestPaths(patterns);
+
+    const treeList = setupList(() => new URLPatternList<string>(), patterns);
+    const compiledList = setupList(
+      () => new URLPatternList<string>(),
+      patterns,
+    );
+    compiledList.compile();
+
+    const compiledFn = () => {
+      const path = testPaths[Math.floor(Math.random() * testPaths.length)];
+      compiledList.match(path, 'https://example.com');
+    };
+
+    const treeFn = () => {
+      const path = testPaths[Math.floor(Math.random() * testPaths.length)];
+      treeList.match(path, 'https://example.com');
+    };
+
+    const results = benchmarkRoundRobin(compiledFn, treeFn, 5000);
+    const speedup = results.optimized.opsPerSecond / results.naive.opsPerSecond;
+
+    console.log(`\n${count} patterns:`);
+    console.log(
+      `  Compiled: ${results.optimized.opsPerSecond.toFixed(0).padStart(8)} ops/sec`,
+    );
+    console.log(
+      `  Tree:     ${results.naive.opsPerSecond.toFixed(0).padStart(8)} ops/sec`,
+    );
+    console.log(`  Speedup:  ${speedup.toFixed(2)}x faster`);
+  }
+}
+
+function benchmarkMatchPathname() {
+  console.log('\n🛤️  Benchmarking matchPathname()');
+  console.log('='.repeat(50));
+
+  for (const count of [100, 2000]) {
+    const patterns = generatePatterns(count);
+    const testPaths = generateTestPaths(patterns);
+    const list = setupList(() => new URLPatternList<string>(), patterns);
+
+    const pathnameFn = () => {
+      const path = testPaths[Math.floor(Math.random() * testPaths.length)];
+      list.matchPathname(path);
+    };
+
+    const urlFn = () => {
+      const path = testPaths[Math.floor(Math.random() * testPaths.length)];
+      list.match(path, 'https://example.com');
+    };
+
+    const results = benchmarkRoundRobin(pathnameFn, urlFn, 5000);
+    const speedup = results.optimized.opsPerSecond / results.naive.opsPerSecond;
+
+    console.log(`\n${count} patterns:`);
+    console.log(
+      `  matchPathname(): ${results.optimized.opsPerSecond.toFixed(0).padStart(8)} ops/sec`,
+    );
+    console.log(
+      `  match():         ${results.naive.opsPerSecond.toFixed(0).padStart(8)} ops/sec`,
+    );
+    console.log(`  Speedup:         ${speedup.toFixed(2)}x faster`);
+  }
+}
+
 console.log('🚀 URLPatternList Performance Benchmark');
 console.log('==========================================');
 
@@ -397,6 +565,18 @@ validateCorrectness();
 // Benchmark pattern addition
 benchmarkPatternAddition();
 
+// Benchmark bulk addition
+benchmarkBulkAddition();
+
+// Benchmark wide trees
+benchmarkWideTree();
+
+// Benchmark compiled matching
+benchmarkCompiled();
+
+// Benchmark pathname-only matching
+benchmarkMatchPathname();
+
 // Run matching benchmarks with different pattern counts
 const patternCounts = [10, 50, 100, 500, 1000, 2000];
 const results: Array<{count: number; speedup: number}> = [];
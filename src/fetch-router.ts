@@ -0,0 +1,208 @@
+import type {
+  URLPatternListAddOptions,
+  URLPatternListItem,
+  URLPatternListOptions,
+  URLPatternListParams,
+  URLPatternListPatternInput,
+} from './index.js';
+import {
+  MethodURLPatternList,
+  type MethodURLPatternListRoute,
+} from './method-url-pattern-list.js';
+import type {
+  DecodedParams,
+  ParamDecoders,
+  PatternInputParams,
+} from './lib/pattern-params.js';
+
+/**
+ * What a route handler is called with, besides the request.
+ */
+export interface FetchRouteMatch<
+  P extends Record<string, unknown> = URLPatternListParams,
+> {
+  /**
+   * The named groups of every URL component, like `{id: '1'}` for
+   * `/users/:id`, decoded by the route's `params` option if it has one.
+   * Unnamed groups, like `*`, are only in `result`.
+   */
+  params: P;
+  /**
+   * The result of the pattern's `exec()` on the request URL.
+   */
+  result: URLPatternResult;
+}
+
+/**
+ * A function that handles a request matched by a route.
+ *
+ * Any extra arguments passed to `FetchRouter.handle()`, like the `env` and
+ * `ctx` of a worker, are passed on. `P` is the type of the params, which
+ * `FetchRouter.addRoute()` infers from the pattern.
+ */
+export type FetchRouteHandler<
+  A extends Array<unknown> = [],
+  P extends Record<string, unknown> = URLPatternListParams,
+> = (
+  request: Request,
+  match: FetchRouteMatch<P>,
+  ...args: A
+) => Response | Promise<Response>;
+
+/**
+ * Options for the `FetchRouter` constructor.
+ */
+export interface FetchRouterOptions<A extends Array<unknown> = []>
+  extends URLPatternListOptions {
+  /**
+   * Handle requests whose URL doesn't match any route. Defaults to a plain
+   * 404 response.
+   */
+  notFound?: (request: Request, ...args: A) => Response | Promise<Response>;
+  /**
+   * Handle requests whose URL only matches routes for other methods.
+   * Defaults to a plain 405 response with an `Allow` header.
+   *
+   * @param allowedMethods - The sorted methods that the URL matches under
+   */
+  methodNotAllowed?: (
+    request: Request,
+    allowedMethods: Array<string>,
+    ...args: A
+  ) => Response | Promise<Response>;
+}
+
+const defaultNotFound = () => new Response('Not Found', {status: 404});
+
+const defaultMethodNotAllowed = (
+  _request: Request,
+  allowedMethods: Array<string>,
+  ..._args: Array<unknown>
+) =>
+  new Response('Method Not Allowed', {
+    status: 405,
+    headers: {Allow: allowedMethods.join(', ')},
+  });
+
+/**
+ * A router for the Fetch API, which matches a `Request` by its method and URL
+ * and calls the handler of the first route that matches.
+ *
+ * It only uses `Request` and `Response`, so it runs in workers, Deno, Bun
+ * and Node.
+ *
+ * ```ts
+ * const router = new FetchRouter();
+ * router.addRoute('GET', {pathname: '/users/:id'}, (request, {params}) =>
+ *   Response.json({id: params.id}),
+ * );
+ *
+ * export default {fetch: (request: Request) => router.handle(request)};
+ * ```
+ */
+export class FetchRouter<A extends Array<unknown> = []> {
+  readonly #routes: MethodURLPatternList<
+    FetchRouteHandler<A, Record<string, unknown>>
+  >;
+  readonly #notFound: NonNullable<FetchRouterOptions<A>['notFound']>;
+  readonly #methodNotAllowed: NonNullable<
+    FetchRouterOptions<A>['methodNotAllowed']
+  >;
+
+  constructor(options: FetchRouterOptions<A> = {}) {
+    const {notFound, methodNotAllowed, ...listOptions} = options;
+    this.#routes = new MethodURLPatternList(listOptions);
+    this.#notFound = notFound ?? defaultNotFound;
+    this.#methodNotAllowed = methodNotAllowed ?? defaultMethodNotAllowed;
+  }
+
+  /**
+   * Add a route for one or more HTTP methods.
+   *
+   * Routes match in the order of the list's `order` option, which is the
+   * order they were added by default.
+   *
+   * When the pattern is a string or `URLPatternInit` literal, the handler's
+   * params are typed with the pattern's named groups, so `'/users/:id'`
+   * gives `{id: string}`. Groups that might not match, like `:id?`, are
+   * optional.
+   *
+   * With the `params` option, like `{params: {id: Number}}`, the handler's
+   * params are decoded, and a decoder that throws makes the request fall
+   * through to the next route.
+   *
+   * @param methods - The method or methods the route handles
+   * @param pattern - The pattern, like `URLPatternList.addPattern()` takes
+   * @param handler - The function that handles matching requests
+   * @param options - Options for the pattern
+   * @returns A handle that can be passed to `removeRoute()`
+   */
+  addRoute<
+    const P extends URLPatternListPatternInput,
+    D extends Record<string, unknown> = {},
+  >(
+    methods: string | Iterable<string>,
+    pattern: P,
+    handler: FetchRouteHandler<
+      A,
+      DecodedParams<PatternInputParams<P>, ParamDecoders<D>>
+    >,
+    options?: URLPatternListAddOptions<ParamDecoders<D>>,
+  ): URLPatternListItem<
+    MethodURLPatternListRoute<FetchRouteHandler<A, Record<string, unknown>>>,
+    DecodedParams<PatternInputParams<P>, ParamDecoders<D>>
+  > {
+    return this.#routes.addPattern(
+      methods,
+      pattern,
+      (request, {params, result}, ...args) =>
+        handler(
+          request,
+          {
+            // This wrapper is only called with matches of `pattern`, whose
+            // params are its named groups decoded by `options.params`.
+            params: params as DecodedParams<
+              PatternInputParams<P>,
+              ParamDecoders<D>
+            >,
+            result,
+          },
+          ...args,
+        ),
+      options,
+    );
+  }
+
+  /**
+   * Remove a route.
+   *
+   * @param item - The handle returned by `addRoute()`
+   * @returns true if the route was found and removed
+   */
+  removeRoute(
+    item: URLPatternListItem<
+      MethodURLPatternListRoute<FetchRouteHandler<A, Record<string, unknown>>>
+    >,
+  ): boolean {
+    return this.#routes.removePattern(item);
+  }
+
+  /**
+   * Handle a request with the first route that matches its method and URL,
+   * or with the `notFound` or `methodNotAllowed` handler.
+   *
+   * @param request - The request to handle
+   * @param args - Extra arguments passed on to the handler
+   */
+  async handle(request: Request, ...args: A): Promise<Response> {
+    const match = this.#routes.match(request.method, request.url);
+    if (match !== null) {
+      const {result, value: handler, params} = match;
+      return handler(request, {params, result}, ...args);
+    }
+    const allowedMethods = this.#routes.allowedMethods(request.url);
+    return allowedMethods.length === 0
+      ? this.#notFound(request, ...args)
+      : this.#methodNotAllowed(request, allowedMethods, ...args);
+  }
+}
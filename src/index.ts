@@ -3,1219 +3,3719 @@ import {
   type Part,
   PartType,
   Modifier,
+  toASCIILowerCase,
+  type URLComponentName,
+  urlComponentNames,
   URLComponentType,
 } from './lib/parse-pattern.js';
+import {
+  compareSpecificity,
+  getSpecificity,
+  type Specificity,
+} from './lib/specificity.js';
+import {coversPattern} from './lib/shadowing.js';
+import {buildPatternURL} from './lib/build-url.js';
+import {LRUCache} from './lib/lru-cache.js';
+import {isCanonicalPathname} from './lib/pathname.js';
+import {decodeParams, getNamedGroups} from './lib/params.js';
+import {
+  buildCapturedResult,
+  canCaptureGroups,
+  type CapturedSpan,
+  isSameResult,
+} from './lib/capture-groups.js';
+import type {
+  DecodedParams,
+  ParamDecoders,
+  PatternInputParams,
+} from './lib/pattern-params.js';
+
+export type {
+  DecodedParams,
+  ParamDecoders,
+  PatternInputParams,
+  PatternParams,
+} from './lib/pattern-params.js';
+
+declare const paramsType: unique symbol;
 
 /**
- * The internal storage for a URL pattern and its metadata.
+ * The storage for a URL pattern and its metadata.
  *
- * @internal
+ * Items are returned from `URLPatternList.addPattern()` and can be used as a
+ * handle to remove the pattern with `URLPatternList.removePattern()`. `P` is
+ * the type of the params of the pattern's matches, which `addPattern()`
+ * infers from the pattern and its `params` option.
  */
-export interface URLPatternListItem<T> {
+export interface URLPatternListItem<
+  T,
+  P extends Record<string, unknown> = Record<string, unknown>,
+> {
+  /**
+   * The position of the pattern in match order. In specificity order,
+   * sequences are reassigned as patterns are added.
+   */
   readonly sequence: number;
   readonly pattern: URLPattern;
   readonly value: T;
+  /**
+   * Whether the pattern was added with the `ignoreCase` option.
+   */
+  readonly ignoreCase?: boolean;
+  /**
+   * The decoders the pattern was added with, as the `params` option.
+   */
+  readonly params?: URLPatternListParamsSchema;
+  /**
+   * Carries the type of the params. Never set.
+   */
+  readonly [paramsType]?: P;
 }
 
 /**
- * The return type of `URLPatternList.match()`.
- *
- * Includes the result of `pattern.exec()` and the matching pattern's associated
- * metadata value.
+ * The type of the params of the matches of an item, like `{id: string}` for
+ * the item returned by `addPattern('/users/:id', value)`.
  */
-export interface URLPatternListMatch<T> {
-  result: URLPatternResult;
-  value: T;
-}
+export type URLPatternListItemParams<I> =
+  I extends URLPatternListItem<unknown, infer P> ? P : never;
 
 /**
- * Data structure used in matching.
+ * The order in which a `URLPatternList` matches patterns.
+ *
+ * - `'insertion'`: The first pattern added to the list that matches wins.
+ * - `'specificity'`: The most specific pattern that matches wins, regardless
+ *   of the order patterns were added. Fixed text beats a `:param`, which
+ *   beats a regex, which beats a `*`, compared part by part in URL order.
+ *   Patterns of equal specificity match in the order they were added.
  */
-interface URLComponent {
-  value: string;
-  type: URLComponentType;
-}
+export type URLPatternListOrder = 'insertion' | 'specificity';
 
 /**
- * Base class for prefix tree nodes. Each node type corresponds to a URL pattern
- * part type.
- *
- * @internal
+ * Options for the `URLPatternList` constructor.
  */
-export abstract class PrefixTreeNode<T> {
-  readonly urlComponentType: URLComponentType;
+export interface URLPatternListOptions {
   /**
-   * Minimum sequence number for this node - represents the earliest pattern
-   * that can be matched through this node.
+   * The order in which patterns are matched. Defaults to `'insertion'`.
    */
-  minSequence: number = Number.MAX_SAFE_INTEGER;
+  order?: URLPatternListOrder;
 
   /**
-   * Patterns that end at this node (for exact matches)
+   * Build match results from the text that wildcard and regex nodes consumed
+   * while walking the prefix tree, instead of running `pattern.exec()` on the
+   * matched pattern. Results are the same, but the URL isn't matched by a
+   * regex a second time.
+   *
+   * Patterns whose groups could be split up in more than one way, like
+   * `/:a-:b`, still use `exec()`. Defaults to `false`.
    */
-  readonly patterns: Array<URLPatternListItem<T>> = [];
+  captureGroups?: boolean;
 
   /**
-   * Child nodes stored as an array for iteration.
+   * With `captureGroups`, also run `pattern.exec()` and compare its result
+   * to the captured one. A difference is a bug in capturing groups, so
+   * matching throws an Error. This is for debugging, as it's slower than not
+   * capturing groups at all. Defaults to `false`.
    */
-  readonly children: Array<PrefixTreeNode<T>> = [];
+  verifyCaptureGroups?: boolean;
 
-  constructor(urlComponentType: URLComponentType) {
-    this.urlComponentType = urlComponentType;
-  }
+  /**
+   * The number of `match()` results to cache, keyed by the URL and base URL.
+   * The least recently used results are evicted when the cache is full, and
+   * the cache is cleared whenever patterns are added or removed. Defaults to
+   * `0`, which disables the cache.
+   */
+  cacheSize?: number;
+}
 
+/**
+ * Statistics of the `match()` result cache, from `URLPatternList.cacheStats`.
+ */
+export interface URLPatternListCacheStats {
   /**
-   * Check if this tree node can match the given parsed pattern part.
+   * The maximum number of cached results. `0` if the cache is disabled.
    */
-  abstract matchesPart(part: Part): boolean;
+  readonly capacity: number;
+  /**
+   * The number of cached results.
+   */
+  readonly size: number;
+  /**
+   * The number of `match()` calls answered from the cache.
+   */
+  readonly hits: number;
+  /**
+   * The number of `match()` calls that weren't in the cache.
+   */
+  readonly misses: number;
+}
+
+/**
+ * Decodes the value of a group of a match, like `Number` for an `:id`. A
+ * decoder throws a `TypeError`, `RangeError`, `SyntaxError` or `URIError` to
+ * reject a value, so that the pattern doesn't match. Other errors are thrown
+ * from the match.
+ */
+export type URLPatternListParamDecoder<V = unknown> = (value: string) => V;
+
+/**
+ * Decoders for the named groups of a pattern, keyed by group name.
+ */
+export type URLPatternListParamsSchema = Readonly<
+  Record<string, URLPatternListParamDecoder>
+>;
 
+/**
+ * Options for `URLPatternList.addPattern()`.
+ */
+export interface URLPatternListAddOptions<
+  S extends URLPatternListParamsSchema = URLPatternListParamsSchema,
+> {
   /**
-   * Match a URL starting from this node, recursively checking children.
-   * Returns the first successful match found.
+   * Whether the pattern ignores case.
    *
-   * @param urlComponents - The URL components to match against.
-   * @param componentIndex - The index of the current URL component.
-   * @param position - The character position within the current URL component.
+   * For patterns given as a string or `URLPatternInit`, this is passed to the
+   * URLPattern constructor. For a URLPattern, it must be set to `true` if the
+   * pattern was constructed with the `ignoreCase` option, so that the prefix
+   * tree also ignores case. URLPattern doesn't expose this option, so the list
+   * can't detect it.
    */
-  abstract match(
-    urlComponents: Array<URLComponent>,
-    componentIndex: number,
-    position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
-  ): URLPatternListItem<T> | null;
+  ignoreCase?: boolean;
 
   /**
-   * Try patterns that end at this node, then try matching children.
-   * Returns the first successful match found.
+   * The base URL to resolve a pattern string against, as in
+   * `new URLPattern(pattern, baseURL)`. Can't be used with a URLPattern or a
+   * `URLPatternInit`, which has its own `baseURL` property.
    */
-  protected tryPatternsAndChildren(
-    urlComponents: Array<URLComponent>,
-    componentIndex: number,
-    position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
-  ): URLPatternListItem<T> | null {
-    const {value, type} = urlComponents[componentIndex];
-
-    let bestMatch: URLPatternListItem<T> | null = null;
-    let advancedComponentIndex = componentIndex;
-    let advancedPosition = position;
-
-    // If we've consumed the current URL component, advance to the next
-    if (position >= value.length) {
-      // TODO: I think there's a bug here.
-      // Only advance componentIndex if there are no children that match the same URL component type
-      const hasChildrenWithSameComponent = this.children.some(
-        (child) => child.urlComponentType === type,
-      );
+  baseURL?: string;
 
-      if (!hasChildrenWithSameComponent) {
-        advancedComponentIndex = componentIndex + 1;
-        advancedPosition = 0;
-      } else {
-        // Keep the same component but reset position for children to try matching from the start
-        advancedPosition = position;
-      }
-    }
+  /**
+   * Decoders for the named groups of the pattern, like `{id: Number}`.
+   *
+   * Matches of the pattern have `params` with the groups decoded. If a
+   * decoder throws, the pattern doesn't match, and matching continues with
+   * the next pattern in match order, as if the pattern's `test()` had failed.
+   * Decoders aren't called for optional groups that didn't match, and should
+   * be pure, as matches are cached with the `cacheSize` option.
+   */
+  params?: S;
+}
 
-    for (const childNode of this.children) {
-      if (bestMatch !== null && childNode.minSequence > bestMatch.sequence) {
-        continue;
-      }
-      // Advance to the next URL component that this subtree might match on
-      let newComponentIndex = advancedComponentIndex;
-      let newPosition = advancedPosition;
-      while (
-        newComponentIndex < urlComponents.length &&
-        urlComponents[newComponentIndex].type < childNode.urlComponentType
-      ) {
-        newComponentIndex++;
-        newPosition = 0;
-      }
-      if (
-        newComponentIndex === urlComponents.length ||
-        urlComponents[newComponentIndex].type > childNode.urlComponentType
-      ) {
-        continue;
-      }
-      const newMatch = childNode.match(
-        urlComponents,
-        newComponentIndex,
-        newPosition,
-        fullUrl,
-        baseUrl,
-      );
-      if (
-        newMatch !== null &&
-        (bestMatch === null || newMatch.sequence < bestMatch.sequence)
-      ) {
-        bestMatch = newMatch;
-      }
-    }
+/**
+ * A pattern to add to a list: a URLPattern, or a string or `URLPatternInit`
+ * that the list constructs a URLPattern from.
+ */
+export type URLPatternListPatternInput = URLPattern | string | URLPatternInit;
 
-    // Then try patterns at this node if we've consumed the current URL component
-    // Only do this if we're at the last component OR if children didn't find a better match
-    if (position >= value.length) {
-      const isLastComponent = advancedComponentIndex >= urlComponents.length;
+/**
+ * A URL to match: a URL string, a URL, or a `URLPatternInit` that's matched
+ * like `URLPattern.exec()` matches it.
+ */
+export type URLPatternListMatchInput = string | URL | URLPatternInit;
 
-      if (isLastComponent || bestMatch === null) {
-        for (const item of this.patterns) {
-          // Skip this pattern if we already have a better match
-          if (bestMatch !== null && item.sequence > bestMatch.sequence) {
-            continue;
-          }
+/**
+ * A pattern that matches any URL, used to process `URLPatternInit` inputs.
+ * Created on first use, so that this module can be loaded before a
+ * URLPattern polyfill.
+ */
+let anyURLPattern: URLPattern | undefined;
 
-          // Test the pattern against the full URL
-          const matches = baseUrl
-            ? item.pattern.test(fullUrl, baseUrl)
-            : item.pattern.test(fullUrl);
+/**
+ * A pattern, its value and options to add to a list with
+ * `URLPatternList.addPatterns()` or `URLPatternList.from()`.
+ */
+export type URLPatternListEntry<T> = readonly [
+  pattern: URLPatternListPatternInput,
+  value: T,
+  options?: URLPatternListAddOptions,
+];
 
-          if (matches === true) {
-            if (bestMatch === null || item.sequence < bestMatch.sequence) {
-              bestMatch = item;
-            }
-          }
-        }
-      }
+/**
+ * Get the URLPattern for a pattern input, constructing it if needed.
+ */
+const toURLPattern = (
+  input: URLPatternListPatternInput,
+  options: URLPatternListAddOptions,
+): URLPattern => {
+  const {baseURL, ignoreCase = false} = options;
+  if (input instanceof URLPattern) {
+    if (baseURL !== undefined) {
+      throw new TypeError('The baseURL option requires a pattern string');
     }
-
-    return bestMatch;
+    return input;
   }
-}
+  if (typeof input !== 'string' && baseURL !== undefined) {
+    throw new TypeError('The baseURL option requires a pattern string');
+  }
+  return baseURL === undefined
+    ? new URLPattern(input, {ignoreCase})
+    : new URLPattern(input, baseURL, {ignoreCase});
+};
 
 /**
- * Root node of the prefix tree.
- *
- * @internal
+ * Get the item properties for the `params` option, checking that each
+ * decoder is for a named group of the pattern.
  */
-export class RootPrefixTreeNode<T> extends PrefixTreeNode<T> {
-  constructor() {
-    // It doesn't matter what actual component type we use since the root node
-    // always matches.
-    super(URLComponentType.Pathname);
+const getParamsOption = (
+  options: URLPatternListAddOptions,
+  parts: ReadonlyArray<Part>,
+): {params?: URLPatternListParamsSchema} => {
+  const {params} = options;
+  if (params === undefined) {
+    return {};
   }
-
-  matchesPart(): boolean {
-    // Root can match anything
-    return true;
+  for (const name of Object.keys(params)) {
+    if (!parts.some((part) => part.name === name)) {
+      throw new TypeError(`The pattern has no group named '${name}'`);
+    }
   }
+  return {params};
+};
 
-  match(
-    urlParts: Array<URLComponent>,
-    componentIndex: number,
-    position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
-  ): URLPatternListItem<T> | null {
-    return this.tryPatternsAndChildren(
-      urlParts,
-      componentIndex,
-      position,
-      fullUrl,
-      baseUrl,
-    );
-  }
+/**
+ * The return type of `URLPatternList.match()`.
+ *
+ * Includes the result of `pattern.exec()` and the matching pattern's associated
+ * metadata value. `P` is the type of the params, like the `P` of
+ * `URLPatternListItem`.
+ */
+export interface URLPatternListMatch<
+  T,
+  P extends Record<string, unknown> = Record<string, unknown>,
+> {
+  result: URLPatternResult;
+  value: T;
+  /**
+   * The named groups of every URL component, with the groups in the
+   * pattern's `params` option decoded.
+   */
+  params: P;
 }
 
 /**
- * Node for fixed string segments like '/api' or '/users'.
+ * A list mounted in another list, as returned by `URLPatternList.mount()`.
  *
- * @internal
+ * Mounts can be used as a handle to unmount the list with
+ * `URLPatternList.unmount()`.
  */
-export class FixedPrefixTreeNode<T> extends PrefixTreeNode<T> {
-  readonly value: string;
-  readonly modifier: Modifier;
+export interface URLPatternListMount<T> {
+  /**
+   * The position of the mount in match order, among the patterns of the list
+   * it's mounted in.
+   */
+  readonly sequence: number;
+  /**
+   * The prefix pattern, with a `{/*}?` wildcard for the rest of the pathname
+   * appended to its pathname.
+   */
+  readonly pattern: URLPattern;
+  readonly list: URLPatternList<T>;
+  /**
+   * Whether the list was mounted with the `ignoreCase` option.
+   */
+  readonly ignoreCase?: boolean;
+}
+
+interface Mount<T> extends URLPatternListMount<T> {
+  /**
+   * Reassigned by `#updateSequences()` in specificity order.
+   */
+  sequence: number;
+  readonly parts: ReadonlyArray<Part>;
+  /**
+   * The pathname group of `pattern` that captures the rest of the pathname.
+   */
+  readonly restGroup: string;
+}
+
+/**
+ * The items stored in the prefix tree, whose sequences can only be
+ * reassigned by the list.
+ */
+class PatternItem<T> implements URLPatternListItem<T> {
+  #sequence: number;
+  readonly pattern: URLPattern;
+  readonly value: T;
+  readonly ignoreCase: boolean;
+  readonly params?: URLPatternListParamsSchema;
 
   constructor(
-    urlComponentType: URLComponentType,
-    value: string,
-    modifier: Modifier = Modifier.None,
+    sequence: number,
+    {
+      pattern,
+      value,
+      ignoreCase = false,
+      params,
+    }: Omit<URLPatternListItem<T>, 'sequence'>,
   ) {
-    super(urlComponentType);
+    this.#sequence = sequence;
+    this.pattern = pattern;
     this.value = value;
-    this.modifier = modifier;
+    this.ignoreCase = ignoreCase;
+    if (params !== undefined) {
+      this.params = params;
+    }
   }
 
-  matchesPart(part: Part): boolean {
-    return (
-      part.type === PartType.Fixed &&
-      part.urlComponentType === this.urlComponentType &&
-      part.value === this.value &&
-      part.modifier === this.modifier
-    );
+  get sequence(): number {
+    return this.#sequence;
   }
 
-  match(
-    urlComponents: Array<URLComponent>,
-    componentIndex: number,
-    position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
-  ): URLPatternListItem<T> | null {
-    const {value, type} = urlComponents[componentIndex];
-    if (type !== this.urlComponentType) {
-      return null;
+  /**
+   * Reassign the sequence of an item in specificity order.
+   */
+  static setSequence(item: URLPatternListItem<unknown>, sequence: number) {
+    if (!(#sequence in item)) {
+      throw new TypeError('The item is not in a URLPatternList');
     }
+    item.#sequence = sequence;
+  }
+}
 
-    const expectedText = this.value;
+/**
+ * Check whether the groups of a component are the single unnamed group that
+ * a component matched by `*` has.
+ */
+const isWholeComponentGroup = ({
+  input,
+  groups,
+}: URLPatternResult['pathname']): boolean => {
+  const keys = Object.keys(groups);
+  return keys.length === 1 && keys[0] === '0' && groups['0'] === input;
+};
 
-    // Handle OneOrMore and ZeroOrMore modifiers
-    if (
-      this.modifier === Modifier.OneOrMore ||
-      this.modifier === Modifier.ZeroOrMore
-    ) {
-      let consumedLength = 0;
-      let currentIndex = position;
-      let matchCount = 0;
+/**
+ * Merge the result of a mount's pattern with the result of a pattern in the
+ * mounted list. The inputs are the parent's, and groups of the mounted list
+ * take precedence over groups of the mount with the same name. Components
+ * that only one of the patterns constrains have that pattern's groups.
+ */
+const mergeMountResult = (
+  mount: Mount<unknown>,
+  parent: URLPatternResult,
+  child: URLPatternResult,
+): URLPatternResult => {
+  // Results of exec() have a null prototype in Node, so match that
+  const result = Object.assign(Object.create(null), {
+    inputs: parent.inputs,
+  }) as Partial<URLPatternResult> & Pick<URLPatternResult, 'inputs'>;
+  for (const name of urlComponentNames) {
+    const parentGroups = {...parent[name].groups};
+    if (name === 'pathname') {
+      delete parentGroups[mount.restGroup];
+    }
+    const childGroups = child[name].groups;
+    result[name] = {
+      input: parent[name].input,
+      groups:
+        mount.pattern[name] === '*' && name !== 'pathname'
+          ? childGroups
+          : isWholeComponentGroup(child[name])
+            ? parentGroups
+            : {...parentGroups, ...childGroups},
+    };
+  }
+  return result as URLPatternResult;
+};
 
-      // Keep matching the expectedText as many times as possible
-      while (value.startsWith(expectedText, currentIndex)) {
-        consumedLength += expectedText.length;
-        currentIndex += expectedText.length;
-        matchCount++;
-      }
+/**
+ * A pattern that can never match, as reported by
+ * `URLPatternList.findShadowedPatterns()`.
+ */
+export interface URLPatternListShadowedPattern<T> {
+  /**
+   * The pattern that can never match.
+   */
+  item: URLPatternListItem<T>;
+  /**
+   * An earlier pattern that matches every URL that `item` matches.
+   */
+  shadowedBy: URLPatternListItem<T>;
+}
 
-      // OneOrMore requires at least one match, ZeroOrMore allows zero
+/**
+ * Parameter values for `URLPatternList.buildURL()`, keyed by group name.
+ * Unnamed groups, like `*` and `(\\d+)`, use their index, as in
+ * `URLPatternResult` groups.
+ */
+export type URLPatternListParams = Record<string, string | undefined>;
+
+/**
+ * A trace of how `URLPatternList.explain()` walked the prefix tree.
+ */
+export interface URLPatternListTrace<T> {
+  /**
+   * The URL components that were matched against, in URL order.
+   */
+  components: Array<{component: URLComponentName; value: string}>;
+  /**
+   * The trace of the root node, which leads to every node visited.
+   */
+  root: URLPatternListTraceNode<T>;
+  /**
+   * The same result that `match()` returns, including matches of mounted
+   * lists that aren't in the trace.
+   */
+  match: URLPatternListMatch<T> | null;
+}
+
+/**
+ * A prefix tree node visited, or pruned, while matching.
+ */
+export interface URLPatternListTraceNode<T> {
+  /**
+   * The kind of node, as in the serialized tree.
+   */
+  type: SerializedPrefixTreeNode['type'];
+  /**
+   * A short description of the part the node matches, like `/users`,
+   * `/:param?` or `*`.
+   */
+  label: string;
+  /**
+   * The URL component the node matches against.
+   */
+  component: URLComponentName;
+  /**
+   * The position in the component that the node started matching at.
+   */
+  position: number;
+  /**
+   * True if the node was skipped because a better match was already found
+   * in an earlier branch. Pruned nodes have no steps.
+   */
+  pruned: boolean;
+  /**
+   * Each way the node consumed the component. A fixed node consumes at most
+   * one way, but wildcards may try several lengths.
+   */
+  steps: Array<URLPatternListTraceStep<T>>;
+  /**
+   * The best pattern matched through this node, if any.
+   */
+  match: URLPatternListItem<T> | null;
+}
+
+/**
+ * A position a node consumed its component up to, and what was tried from
+ * there.
+ */
+export interface URLPatternListTraceStep<T> {
+  component: URLComponentName;
+  /**
+   * The position in the component after the text consumed by the node.
+   */
+  position: number;
+  /**
+   * The child nodes tried from this position.
+   */
+  children: Array<URLPatternListTraceNode<T>>;
+  /**
+   * The patterns ending at the node that were considered at this position.
+   * Patterns are only tested with `pattern.test()` if they could beat the
+   * best match so far, otherwise they're skipped.
+   */
+  tests: Array<{
+    item: URLPatternListItem<T>;
+    result: 'matched' | 'failed' | 'skipped';
+  }>;
+}
+
+/**
+ * Converts list values to and from a serializable form. Used by
+ * `URLPatternList.serialize()` and `URLPatternList.fromJSON()`.
+ */
+export interface URLPatternListCodec<T> {
+  encode(value: T): unknown;
+  decode(data: unknown): T;
+  /**
+   * Converts the `params` option of a pattern, which can't be serialized
+   * as-is, like to the name of a schema. Lists with patterns that have the
+   * option can only be serialized with this method.
+   */
+  encodeParams?(params: URLPatternListParamsSchema): unknown;
+  decodeParams?(data: unknown): URLPatternListParamsSchema;
+}
+
+/**
+ * The serialized form of a `URLPatternList`, as returned by `serialize()` and
+ * `toJSON()`.
+ *
+ * The format captures the prefix tree as well as the patterns, so that a list
+ * can be restored without parsing patterns or rebuilding the tree.
+ */
+export interface SerializedURLPatternList {
+  version: 1;
+  order?: URLPatternListOrder;
+  sequenceCounter: number;
+  root: SerializedPrefixTreeNode;
+  mounts?: Array<SerializedURLPatternListMount>;
+}
+
+/**
+ * The serialized form of a mounted list.
+ */
+export interface SerializedURLPatternListMount {
+  sequence: number;
+  pattern: URLPatternInit;
+  ignoreCase?: boolean;
+  list: SerializedURLPatternList;
+}
+
+/**
+ * The serialized form of a prefix tree node.
+ */
+export interface SerializedPrefixTreeNode {
+  type: 'root' | 'fixed' | 'wildcard' | 'full-wildcard' | 'regex';
+  urlComponentType: URLComponentType;
+  minSequence: number;
+  /**
+   * The fixed text for fixed nodes, or the regex source for regex nodes.
+   */
+  value?: string;
+  modifier?: Modifier;
+  prefix?: string;
+  suffix?: string;
+  ignoreCase?: boolean;
+  patterns: Array<SerializedURLPatternListItem>;
+  children: Array<SerializedPrefixTreeNode>;
+}
+
+/**
+ * The serialized form of a pattern and its value.
+ */
+export interface SerializedURLPatternListItem {
+  sequence: number;
+  pattern: URLPatternInit;
+  ignoreCase?: boolean;
+  value: unknown;
+  /**
+   * The `params` option, as encoded by the codec's `encodeParams()`.
+   */
+  params?: unknown;
+}
+
+/**
+ * Data structure used in matching.
+ */
+interface URLComponent {
+  value: string;
+  type: URLComponentType;
+  /**
+   * The lowercased value, computed on demand for case-insensitive nodes.
+   */
+  foldedValue?: string;
+}
+
+/**
+ * Get the value of a URL component for a node to match against.
+ */
+const getComponentValue = (
+  component: URLComponent,
+  ignoreCase: boolean,
+): string =>
+  ignoreCase
+    ? (component.foldedValue ??= toASCIILowerCase(component.value))
+    : component.value;
+
+/**
+ * State shared by every node visited while matching a single URL.
+ */
+interface MatchContext {
+  /**
+   * The URL components to match against.
+   */
+  readonly urlComponents: Array<URLComponent>;
+
+  /**
+   * The full URL string, or the URLPatternInit, used to test candidate
+   * patterns.
+   */
+  readonly input: string | URLPatternInit;
+
+  /**
+   * The inputs of results for a URLPatternInit, as processed by
+   * `URLPattern.exec()`.
+   */
+  readonly inputs?: URLPatternResult['inputs'];
+
+  readonly baseUrl: string | undefined;
+
+  /**
+   * Patterns with a sequence number less than or equal to this are skipped.
+   * `matchAll()` uses this to resume the search after the previous match.
+   */
+  readonly after: number;
+
+  /**
+   * Records the traversal for `explain()`. Only set while explaining, so
+   * that tracing doesn't slow down regular matches.
+   */
+  readonly trace?: {current: URLPatternListTraceNode<unknown>};
+
+  /**
+   * Set by compiled matchers, so that nodes that are matched by calling their
+   * `match()` method continue into the compiled code for their patterns and
+   * children.
+   */
+  readonly resume?: (
+    node: PrefixTreeNode<unknown>,
+    componentIndex: number,
+    position: number,
+  ) => URLPatternListItem<unknown> | null;
+
+  /**
+   * Records the text consumed by wildcard and regex nodes, with the
+   * `captureGroups` option.
+   */
+  readonly capture?: CaptureRecorder;
+}
+
+/**
+ * Records the text consumed by the wildcard and regex nodes on the path
+ * currently being matched, and takes a snapshot of it whenever a pattern
+ * matches.
+ */
+class CaptureRecorder {
+  readonly #path: Array<{
+    node: PrefixTreeNode<unknown>;
+    componentIndex: number;
+    start: number;
+    end: number;
+  }> = [];
+  readonly #spans = new Map<
+    URLPatternListItem<unknown>,
+    Array<{componentIndex: number; start: number; end: number}>
+  >();
+
+  /**
+   * Match a wildcard or regex node, recording the position it starts at.
+   */
+  match(
+    node: PrefixTreeNode<unknown>,
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<unknown> | null {
+    this.#path.push({node, componentIndex, start: position, end: position});
+    try {
+      return node.match(context, componentIndex, position);
+    } finally {
+      this.#path.pop();
+    }
+  }
+
+  /**
+   * Record the position a node continues to its patterns and children from.
+   * Only nodes entered through `match()` are recorded.
+   */
+  continue(node: PrefixTreeNode<unknown>, position: number): void {
+    const last = this.#path[this.#path.length - 1];
+    if (last !== undefined && last.node === node) {
+      last.end = position;
+    }
+  }
+
+  /**
+   * Take a snapshot of the path for a pattern that matched.
+   */
+  record(item: URLPatternListItem<unknown>): void {
+    this.#spans.set(
+      item,
+      this.#path.map(({componentIndex, start, end}) => ({
+        componentIndex,
+        start,
+        end,
+      })),
+    );
+  }
+
+  /**
+   * Get the text consumed on the path to a pattern when it last matched.
+   */
+  getSpans(
+    item: URLPatternListItem<unknown>,
+    urlComponents: Array<URLComponent>,
+  ): Array<CapturedSpan> | undefined {
+    return this.#spans.get(item)?.map(({componentIndex, start, end}) => {
+      const {type, value} = urlComponents[componentIndex];
+      return {urlComponentType: type, value: value.slice(start, end)};
+    });
+  }
+}
+
+/**
+ * A matcher generated by `compileTree()`.
+ */
+type CompiledMatcher = (
+  context: MatchContext,
+) => URLPatternListItem<unknown> | null;
+
+/**
+ * An index of the children of a node, built by `PrefixTreeNode` on demand.
+ */
+interface ChildIndex<T> {
+  /**
+   * Fixed children without modifiers, grouped by URL component and case
+   * sensitivity, and keyed by their value.
+   */
+  readonly fixed: Array<{
+    readonly urlComponentType: URLComponentType;
+    readonly ignoreCase: boolean;
+    readonly nodes: Map<string, PrefixTreeNode<T>>;
+    /**
+     * The distinct lengths of the values in `nodes`.
+     */
+    readonly lengths: Array<number>;
+  }>;
+
+  /**
+   * All other children, in the order they were added.
+   */
+  readonly others: Array<PrefixTreeNode<T>>;
+}
+
+/**
+ * Create a prefix tree node for a part.
+ */
+const createNode = <T>(part: Part): PrefixTreeNode<T> => {
+  switch (part.type) {
+    case PartType.Fixed:
+      return new FixedPrefixTreeNode<T>(
+        part.urlComponentType,
+        part.value,
+        part.modifier,
+        part.ignoreCase,
+      );
+    case PartType.SegmentWildcard:
+      return new WildcardPrefixTreeNode<T>(
+        part.urlComponentType,
+        part.modifier,
+        part.prefix,
+        part.suffix,
+        part.ignoreCase,
+      );
+    case PartType.FullWildcard:
+      return new FullWildcardPrefixTreeNode<T>(
+        part.urlComponentType,
+        part.modifier,
+      );
+    case PartType.Regex:
+      return new RegexPrefixTreeNode<T>(
+        part.urlComponentType,
+        part.value,
+        part.ignoreCase,
+      );
+    default:
+      throw new Error(`Unsupported part type: ${part.type}`);
+  }
+};
+
+/**
+ * A key for the parts that a node matches, such that `nodeKey(node) ===
+ * partKey(part)` exactly when `node.matchesPart(part)`. Used to look up
+ * children in a map while adding patterns in bulk.
+ */
+const partKey = (part: Part): string => {
+  const ignoreCase = part.ignoreCase ?? false;
+  switch (part.type) {
+    case PartType.Fixed:
+      return JSON.stringify([
+        part.type,
+        part.urlComponentType,
+        part.modifier,
+        ignoreCase,
+        part.value,
+      ]);
+    case PartType.SegmentWildcard:
+      return JSON.stringify([
+        part.type,
+        part.urlComponentType,
+        part.modifier,
+        ignoreCase,
+        part.prefix,
+        part.suffix,
+      ]);
+    case PartType.FullWildcard:
+      return JSON.stringify([part.type, part.urlComponentType, part.modifier]);
+    case PartType.Regex:
+      return JSON.stringify([
+        part.type,
+        part.urlComponentType,
+        ignoreCase,
+        part.value,
+      ]);
+  }
+};
+
+/**
+ * The key of the parts a node matches. See `partKey()`.
+ */
+const nodeKey = <T>(node: PrefixTreeNode<T>): string | undefined => {
+  if (node instanceof FixedPrefixTreeNode) {
+    return JSON.stringify([
+      PartType.Fixed,
+      node.urlComponentType,
+      node.modifier,
+      node.ignoreCase,
+      node.value,
+    ]);
+  }
+  if (node instanceof WildcardPrefixTreeNode) {
+    return JSON.stringify([
+      PartType.SegmentWildcard,
+      node.urlComponentType,
+      node.modifier,
+      node.ignoreCase,
+      node.prefix,
+      node.suffix,
+    ]);
+  }
+  if (node instanceof FullWildcardPrefixTreeNode) {
+    return JSON.stringify([
+      PartType.FullWildcard,
+      node.urlComponentType,
+      node.modifier,
+    ]);
+  }
+  if (node instanceof RegexPrefixTreeNode) {
+    return JSON.stringify([
+      PartType.Regex,
+      node.urlComponentType,
+      node.ignoreCase,
+      node.regexString,
+    ]);
+  }
+  return undefined;
+};
+
+/**
+ * Get a key for the parts of a pattern that's the same for patterns with the
+ * same structure, including the names of their groups.
+ */
+const partsKey = (parts: ReadonlyArray<Part>): string =>
+  JSON.stringify(
+    parts.map((part) => [
+      part.type,
+      part.urlComponentType,
+      part.name,
+      part.prefix,
+      part.value,
+      part.suffix,
+      part.modifier,
+      part.ignoreCase ?? false,
+    ]),
+  );
+
+/**
+ * Whether a part can be stored in a fixed node that's merged with others.
+ */
+const isMergeablePart = (part: Part): boolean =>
+  part.type === PartType.Fixed && part.modifier === Modifier.None;
+
+/**
+ * Whether a node can be merged with other fixed nodes.
+ */
+const isMergeableNode = <T>(
+  node: PrefixTreeNode<T>,
+): node is FixedPrefixTreeNode<T> =>
+  node instanceof FixedPrefixTreeNode && node.modifier === Modifier.None;
+
+/**
+ * Find the index of the URL component of the given type, starting at
+ * `componentIndex`, or -1 if the URL doesn't have it.
+ */
+const findComponent = (
+  urlComponents: Array<URLComponent>,
+  componentIndex: number,
+  type: URLComponentType,
+): number => {
+  while (
+    componentIndex < urlComponents.length &&
+    urlComponents[componentIndex].type < type
+  ) {
+    componentIndex++;
+  }
+  return componentIndex < urlComponents.length &&
+    urlComponents[componentIndex].type === type
+    ? componentIndex
+    : -1;
+};
+
+/**
+ * Base class for prefix tree nodes. Each node type corresponds to a URL pattern
+ * part type.
+ *
+ * @internal
+ */
+export abstract class PrefixTreeNode<T> {
+  readonly urlComponentType: URLComponentType;
+  /**
+   * Minimum sequence number for this node - represents the earliest pattern
+   * that can be matched through this node.
+   */
+  minSequence: number = Number.MAX_SAFE_INTEGER;
+  /**
+   * Maximum sequence number for this node - represents the latest pattern
+   * that can be matched through this node. `matchAll()` skips subtrees whose
+   * patterns all come before the previous match.
+   */
+  maxSequence: number = -1;
+
+  /**
+   * Patterns that end at this node (for exact matches)
+   */
+  readonly patterns: Array<URLPatternListItem<T>> = [];
+
+  #children: Array<PrefixTreeNode<T>> = [];
+
+  /**
+   * The index of the children, or undefined if it needs to be rebuilt.
+   */
+  #childIndex: ChildIndex<T> | undefined = undefined;
+
+  constructor(urlComponentType: URLComponentType) {
+    this.urlComponentType = urlComponentType;
+  }
+
+  /**
+   * Child nodes stored as an array for iteration. Use `addChild()` and
+   * `removeChild()` to change them.
+   */
+  get children(): ReadonlyArray<PrefixTreeNode<T>> {
+    return this.#children;
+  }
+
+  addChild(child: PrefixTreeNode<T>): void {
+    this.#children.push(child);
+    this.#childIndex = undefined;
+  }
+
+  removeChild(child: PrefixTreeNode<T>): void {
+    this.#children.splice(this.#children.indexOf(child), 1);
+    this.#childIndex = undefined;
+  }
+
+  replaceChild(child: PrefixTreeNode<T>, replacement: PrefixTreeNode<T>): void {
+    this.#children[this.#children.indexOf(child)] = replacement;
+    this.#childIndex = undefined;
+  }
+
+  /**
+   * Get the index of the children, building it if needed.
+   *
+   * Fixed children are indexed by their value, so that matching can look up
+   * the candidates that start at a position with one lookup per distinct
+   * value length, instead of checking every child.
+   */
+  #getChildIndex(): ChildIndex<T> {
+    if (this.#childIndex !== undefined) {
+      return this.#childIndex;
+    }
+    const index: ChildIndex<T> = {fixed: [], others: []};
+    for (const child of this.#children) {
+      if (
+        !(child instanceof FixedPrefixTreeNode) ||
+        child.modifier !== Modifier.None
+      ) {
+        index.others.push(child);
+        continue;
+      }
+      let group = index.fixed.find(
+        (group) =>
+          group.urlComponentType === child.urlComponentType &&
+          group.ignoreCase === child.ignoreCase,
+      );
+      if (group === undefined) {
+        group = {
+          urlComponentType: child.urlComponentType,
+          ignoreCase: child.ignoreCase,
+          nodes: new Map(),
+          lengths: [],
+        };
+        index.fixed.push(group);
+      }
+      group.nodes.set(child.value, child);
+      if (!group.lengths.includes(child.value.length)) {
+        group.lengths.push(child.value.length);
+      }
+    }
+    return (this.#childIndex = index);
+  }
+
+  /**
+   * Check if this tree node can match the given parsed pattern part.
+   */
+  abstract matchesPart(part: Part): boolean;
+
+  /**
+   * Recompute minSequence and maxSequence from the patterns at this node and
+   * the sequences of its children.
+   */
+  updateSequences(): void {
+    let minSequence = Number.MAX_SAFE_INTEGER;
+    let maxSequence = -1;
+    for (const item of this.patterns) {
+      minSequence = Math.min(minSequence, item.sequence);
+      maxSequence = Math.max(maxSequence, item.sequence);
+    }
+    for (const child of this.children) {
+      minSequence = Math.min(minSequence, child.minSequence);
+      maxSequence = Math.max(maxSequence, child.maxSequence);
+    }
+    this.minSequence = minSequence;
+    this.maxSequence = maxSequence;
+  }
+
+  /**
+   * Match a URL starting from this node, recursively checking children.
+   * Returns the first successful match found.
+   *
+   * @param context - The state of the current match.
+   * @param componentIndex - The index of the current URL component.
+   * @param position - The character position within the current URL component.
+   */
+  abstract match(
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<T> | null;
+
+  /**
+   * Try patterns that end at this node, then try matching children.
+   * Returns the first successful match found.
+   */
+  protected tryPatternsAndChildren(
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<T> | null {
+    context.capture?.continue(this, position);
+    if (context.resume !== undefined) {
+      return context.resume(
+        this,
+        componentIndex,
+        position,
+      ) as URLPatternListItem<T> | null;
+    }
+    const {urlComponents, input, baseUrl, after, trace} = context;
+    const {value, type} = urlComponents[componentIndex];
+
+    let step: URLPatternListTraceStep<unknown> | undefined;
+    if (trace !== undefined) {
+      step = {
+        component: urlComponentNames[type],
+        position,
+        children: [],
+        tests: [],
+      };
+      trace.current.steps.push(step);
+    }
+
+    let bestMatch: URLPatternListItem<T> | null = null;
+    let advancedComponentIndex = componentIndex;
+    let advancedPosition = position;
+
+    // If we've consumed the current URL component, advance to the next
+    if (position >= value.length) {
+      // TODO: I think there's a bug here.
+      // Only advance componentIndex if there are no children that match the same URL component type
+      const hasChildrenWithSameComponent = this.children.some(
+        (child) => child.urlComponentType === type,
+      );
+
+      if (!hasChildrenWithSameComponent) {
+        advancedComponentIndex = componentIndex + 1;
+        advancedPosition = 0;
+      } else {
+        // Keep the same component but reset position for children to try matching from the start
+        advancedPosition = position;
+      }
+    }
+
+    const childIndex = this.#getChildIndex();
+
+    // Look up the fixed children whose value is at the position the
+    // children would match at
+    for (const group of childIndex.fixed) {
+      // Advance to the next URL component that this group might match on
+      const newComponentIndex = findComponent(
+        urlComponents,
+        advancedComponentIndex,
+        group.urlComponentType,
+      );
+      if (newComponentIndex === -1) {
+        continue;
+      }
+      const newPosition =
+        newComponentIndex === advancedComponentIndex ? advancedPosition : 0;
+      const componentValue = getComponentValue(
+        urlComponents[newComponentIndex],
+        group.ignoreCase,
+      );
+      for (const length of group.lengths) {
+        const childNode = group.nodes.get(
+          componentValue.slice(newPosition, newPosition + length),
+        );
+        if (childNode !== undefined) {
+          bestMatch = this.#tryChild(
+            context,
+            childNode,
+            newComponentIndex,
+            newPosition,
+            bestMatch,
+            step,
+          );
+        }
+      }
+    }
+
+    for (const childNode of childIndex.others) {
+      const newComponentIndex = findComponent(
+        urlComponents,
+        advancedComponentIndex,
+        childNode.urlComponentType,
+      );
+      if (newComponentIndex === -1) {
+        continue;
+      }
+      bestMatch = this.#tryChild(
+        context,
+        childNode,
+        newComponentIndex,
+        newComponentIndex === advancedComponentIndex ? advancedPosition : 0,
+        bestMatch,
+        step,
+      );
+    }
+
+    // Then try patterns at this node if we've consumed the current URL
+    // component. Children that matched don't rule them out, as a pattern
+    // that ends here can come before them, like `/a` before `/a/:b?`.
+    if (position >= value.length) {
+      for (const item of this.patterns) {
+        // Skip this pattern if we already have a better match, or if it
+        // was already returned by an earlier search
+        if (
+          item.sequence <= after ||
+          (bestMatch !== null && item.sequence > bestMatch.sequence)
+        ) {
+          step?.tests.push({item, result: 'skipped'});
+          continue;
+        }
+
+        // Test the pattern against the full URL
+        const matches = baseUrl
+          ? item.pattern.test(input, baseUrl)
+          : item.pattern.test(input);
+        step?.tests.push({item, result: matches ? 'matched' : 'failed'});
+
+        if (matches === true) {
+          context.capture?.record(item);
+          if (bestMatch === null || item.sequence < bestMatch.sequence) {
+            bestMatch = item;
+          }
+        }
+      }
+    }
+
+    return bestMatch;
+  }
+
+  /**
+   * Match a child node, unless it can't beat `bestMatch`, and return the
+   * better of the two matches.
+   */
+  #tryChild(
+    context: MatchContext,
+    childNode: PrefixTreeNode<T>,
+    componentIndex: number,
+    position: number,
+    bestMatch: URLPatternListItem<T> | null,
+    step: URLPatternListTraceStep<unknown> | undefined,
+  ): URLPatternListItem<T> | null {
+    if (
+      childNode.maxSequence <= context.after ||
+      (bestMatch !== null && childNode.minSequence > bestMatch.sequence)
+    ) {
+      step?.children.push(traceNode(childNode, position, true));
+      return bestMatch;
+    }
+    const newMatch =
+      step !== undefined
+        ? traceMatch(childNode, context, componentIndex, position, step)
+        : context.capture !== undefined &&
+            !(childNode instanceof FixedPrefixTreeNode)
+          ? (context.capture.match(
+              childNode,
+              context,
+              componentIndex,
+              position,
+            ) as URLPatternListItem<T> | null)
+          : childNode.match(context, componentIndex, position);
+    return newMatch !== null &&
+      (bestMatch === null || newMatch.sequence < bestMatch.sequence)
+      ? newMatch
+      : bestMatch;
+  }
+}
+
+/**
+ * Root node of the prefix tree.
+ *
+ * @internal
+ */
+export class RootPrefixTreeNode<T> extends PrefixTreeNode<T> {
+  constructor() {
+    // It doesn't matter what actual component type we use since the root node
+    // always matches.
+    super(URLComponentType.Pathname);
+  }
+
+  matchesPart(): boolean {
+    // Root can match anything
+    return true;
+  }
+
+  match(
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<T> | null {
+    return this.tryPatternsAndChildren(context, componentIndex, position);
+  }
+}
+
+/**
+ * Node for fixed string segments like '/api' or '/users'.
+ *
+ * @internal
+ */
+export class FixedPrefixTreeNode<T> extends PrefixTreeNode<T> {
+  readonly value: string;
+  readonly modifier: Modifier;
+  /**
+   * Whether `value` is lowercased and matched against the lowercased URL
+   * component.
+   */
+  readonly ignoreCase: boolean;
+
+  constructor(
+    urlComponentType: URLComponentType,
+    value: string,
+    modifier: Modifier = Modifier.None,
+    ignoreCase: boolean = false,
+  ) {
+    super(urlComponentType);
+    this.value = value;
+    this.modifier = modifier;
+    this.ignoreCase = ignoreCase;
+  }
+
+  matchesPart(part: Part): boolean {
+    return (
+      part.type === PartType.Fixed &&
+      part.urlComponentType === this.urlComponentType &&
+      part.value === this.value &&
+      part.modifier === this.modifier &&
+      (part.ignoreCase ?? false) === this.ignoreCase
+    );
+  }
+
+  match(
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<T> | null {
+    const component = context.urlComponents[componentIndex];
+    if (component.type !== this.urlComponentType) {
+      return null;
+    }
+    const value = getComponentValue(component, this.ignoreCase);
+
+    const expectedText = this.value;
+
+    // Handle OneOrMore and ZeroOrMore modifiers
+    if (
+      this.modifier === Modifier.OneOrMore ||
+      this.modifier === Modifier.ZeroOrMore
+    ) {
+      let consumedLength = 0;
+      let currentIndex = position;
+      let matchCount = 0;
+
+      // Keep matching the expectedText as many times as possible
+      while (value.startsWith(expectedText, currentIndex)) {
+        consumedLength += expectedText.length;
+        currentIndex += expectedText.length;
+        matchCount++;
+      }
+
+      // OneOrMore requires at least one match, ZeroOrMore allows zero
       const minimumMatches = this.modifier === Modifier.OneOrMore ? 1 : 0;
       if (matchCount >= minimumMatches) {
         return this.tryPatternsAndChildren(
-          urlComponents,
+          context,
           componentIndex,
           position + consumedLength,
-          fullUrl,
-          baseUrl,
         );
       }
 
-      return null;
+      return null;
+    }
+
+    // Check if the expected text is present at the current position
+    if (value.startsWith(expectedText, position)) {
+      // Expected text is present - consume it and continue
+      return this.tryPatternsAndChildren(
+        context,
+        componentIndex,
+        position + expectedText.length,
+      );
+    }
+
+    // Expected text is not present - check if this is optional
+    if (this.modifier === Modifier.Optional) {
+      // Optional part not present - skip it and continue
+      return this.tryPatternsAndChildren(context, componentIndex, position);
+    }
+
+    // Required part not present - no match
+    return null;
+  }
+}
+
+/**
+ * Node for wildcard segments like ':id' or ':userId'. Wildcards with different
+ * names are semantically equivalent and can share nodes.
+ *
+ * @internal
+ */
+export class WildcardPrefixTreeNode<T> extends PrefixTreeNode<T> {
+  readonly modifier: number;
+  readonly prefix: string;
+  readonly suffix: string;
+  /**
+   * Whether `prefix` and `suffix` are lowercased and matched against the
+   * lowercased URL component.
+   */
+  readonly ignoreCase: boolean;
+
+  constructor(
+    urlComponentType: URLComponentType,
+    modifier: number = Modifier.None,
+    prefix: string = '',
+    suffix: string = '',
+    ignoreCase: boolean = false,
+  ) {
+    super(urlComponentType);
+    this.modifier = modifier;
+    this.prefix = prefix;
+    this.suffix = suffix;
+    this.ignoreCase = ignoreCase;
+  }
+
+  matchesPart(part: Part): boolean {
+    return (
+      part.type === PartType.SegmentWildcard &&
+      part.urlComponentType === this.urlComponentType &&
+      part.modifier === this.modifier &&
+      part.prefix === this.prefix &&
+      part.suffix === this.suffix &&
+      (part.ignoreCase ?? false) === this.ignoreCase
+    );
+  }
+
+  match(
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<T> | null {
+    const component = context.urlComponents[componentIndex];
+    if (component.type !== this.urlComponentType) {
+      return null;
+    }
+    const value = getComponentValue(component, this.ignoreCase);
+
+    // Handle ZeroOrMore modifier with children using backtracking
+    if (this.modifier === Modifier.ZeroOrMore && this.children.length > 0) {
+      const remaining = value.slice(position);
+
+      // First try zero consumption (ZeroOrMore allows consuming nothing)
+      const zeroMatch = this.tryPatternsAndChildren(
+        context,
+        componentIndex,
+        position,
+      );
+      if (zeroMatch !== null) {
+        return zeroMatch;
+      }
+
+      // Then try consuming different amounts, from most to least
+      // This allows children to match whatever remains
+      if (remaining.length > 0 && remaining.startsWith('/')) {
+        const segments = remaining.split('/').slice(1); // Remove empty first element
+
+        // Try consuming 1, 2, 3, ... segments
+        for (
+          let segmentCount = 1;
+          segmentCount <= segments.length;
+          segmentCount++
+        ) {
+          let consumedLength = 1; // leading slash
+          for (let i = 0; i < segmentCount; i++) {
+            consumedLength += segments[i].length;
+            if (i < segmentCount - 1) {
+              consumedLength += 1; // slash between segments
+            }
+          }
+
+          const newPathIndex = position + consumedLength;
+          const match = this.tryPatternsAndChildren(
+            context,
+            componentIndex,
+            newPathIndex,
+          );
+          if (match !== null) {
+            return match;
+          }
+        }
+      }
+
+      return null;
+    }
+
+    // Handle OneOrMore modifier with children using backtracking
+    if (this.modifier === Modifier.OneOrMore && this.children.length > 0) {
+      const remaining = value.slice(position);
+
+      // OneOrMore requires at least one segment, so don't try zero consumption
+      // Try consuming different amounts, from 1 segment to all segments
+      if (remaining.length > 0 && remaining.startsWith('/')) {
+        const segments = remaining.split('/').slice(1); // Remove empty first element
+
+        // Try consuming 1, 2, 3, ... segments
+        for (
+          let segmentCount = 1;
+          segmentCount <= segments.length;
+          segmentCount++
+        ) {
+          let consumedLength = 1; // leading slash
+          for (let i = 0; i < segmentCount; i++) {
+            consumedLength += segments[i].length;
+            if (i < segmentCount - 1) {
+              consumedLength += 1; // slash between segments
+            }
+          }
+
+          const newPathIndex = position + consumedLength;
+          const match = this.tryPatternsAndChildren(
+            context,
+            componentIndex,
+            newPathIndex,
+          );
+          if (match !== null) {
+            return match;
+          }
+        }
+      }
+
+      return null;
+    }
+
+    // Handle Modifier.None with backtracking when we have children
+    if (this.modifier === Modifier.None && this.children.length > 0) {
+      const remaining = value.slice(position);
+
+      // For wildcards with prefix/suffix, we need to be more careful about backtracking
+      if (this.prefix || this.suffix) {
+        // For prefix-based wildcards, try character-by-character consumption
+        // to allow subsequent Fixed parts to match
+        if (!remaining.startsWith(this.prefix)) {
+          return null;
+        }
+
+        const afterPrefix = remaining.slice(this.prefix.length);
+        if (afterPrefix.length === 0) {
+          return null; // Must have content after prefix
+        }
+
+        // Try different consumption amounts, from minimal to maximal
+        for (
+          let contentLength = 1;
+          contentLength <= afterPrefix.length;
+          contentLength++
+        ) {
+          const consumption = this.prefix.length + contentLength;
+          const newPathIndex = position + consumption;
+          const match = this.tryPatternsAndChildren(
+            context,
+            componentIndex,
+            newPathIndex,
+          );
+          if (match !== null) {
+            return match;
+          }
+        }
+
+        return null;
+      } else {
+        // For wildcards without prefix/suffix, use character-by-character backtracking
+        // This handles cases like :slug in /posts/:id-:slug-:category
+        if (remaining.length === 0) {
+          return null;
+        }
+
+        // Try different consumption amounts, from minimal to maximal
+        for (
+          let contentLength = 1;
+          contentLength <= remaining.length;
+          contentLength++
+        ) {
+          const newPathIndex = position + contentLength;
+          const match = this.tryPatternsAndChildren(
+            context,
+            componentIndex,
+            newPathIndex,
+          );
+          if (match !== null) {
+            return match;
+          }
+        }
+
+        return null;
+      }
+    }
+
+    // For other cases, use the original logic
+    const remaining = value.slice(position);
+    let consumedChars: number;
+
+    switch (this.modifier) {
+      case Modifier.None:
+        consumedChars = this.#matchSingleSegment(remaining);
+        break;
+      case Modifier.ZeroOrMore:
+        // Already handled above if we have children
+        if (this.prefix && this.prefix !== '/') {
+          // Custom prefix (like '-' in group delimiters) - use prefix-based matching
+          consumedChars = this.#matchWithPrefixSuffix(remaining, false);
+        } else {
+          // Standard '/' prefix or no prefix - use traditional multi-segment matching
+          consumedChars = this.#matchMultipleSegments(remaining, false);
+        }
+        break;
+      case Modifier.OneOrMore:
+        if (this.prefix && this.prefix !== '/') {
+          // Custom prefix (like '-' in group delimiters) - use prefix-based matching
+          consumedChars = this.#matchOneOrMoreWithPrefix(remaining);
+        } else {
+          // Standard '/' prefix or no prefix - use traditional multi-segment matching
+          consumedChars = this.#matchMultipleSegments(remaining, true);
+        }
+        break;
+      case Modifier.Optional:
+        consumedChars = this.#matchOptionalSegment(remaining);
+        break;
+      default:
+        consumedChars = 0;
+    }
+
+    // For modifiers that support zero-match, try zero consumption first
+    if (
+      this.modifier === Modifier.ZeroOrMore ||
+      this.modifier === Modifier.Optional
+    ) {
+      const zeroMatch = this.tryPatternsAndChildren(
+        context,
+        componentIndex,
+        position,
+      );
+      if (zeroMatch !== null) {
+        return zeroMatch;
+      }
+    }
+
+    // Try normal consumption if we matched something
+    if (consumedChars > 0) {
+      const newPathIndex = position + consumedChars;
+      return this.tryPatternsAndChildren(context, componentIndex, newPathIndex);
     }
 
-    // Check if the expected text is present at the current position
-    if (value.startsWith(expectedText, position)) {
-      // Expected text is present - consume it and continue
-      return this.tryPatternsAndChildren(
-        urlComponents,
+    // For OneOrMore, if we couldn't consume anything, we still need to check
+    // if zero-consumption is valid according to URLPattern semantics
+    if (this.modifier === Modifier.OneOrMore && consumedChars === 0) {
+      // Try zero consumption for OneOrMore to match URLPattern behavior
+      const zeroMatch = this.tryPatternsAndChildren(
+        context,
         componentIndex,
-        position + expectedText.length,
-        fullUrl,
-        baseUrl,
+        position,
       );
+      if (zeroMatch !== null) {
+        return zeroMatch;
+      }
+    }
+
+    return null;
+  }
+
+  #matchSingleSegment(remaining: string): number {
+    if (this.prefix || this.suffix) {
+      return this.#matchWithPrefixSuffix(remaining, true);
+    }
+
+    // Handle case where wildcard has no prefix and remaining doesn't start with
+    // `/` This happens in direct separation cases like /post/:id-:title where
+    // :title needs to match "foo" directly (not "/foo")
+    if (remaining.length === 0) {
+      return 0;
+    }
+
+    if (
+      this.urlComponentType === URLComponentType.Pathname &&
+      remaining.startsWith('/')
+    ) {
+      // Standard case: wildcard with implicit / prefix
+      const segmentContent = remaining.slice(1);
+      if (segmentContent.length === 0) {
+        return 0;
+      }
+
+      // When there are no children to match, consume the entire remaining
+      // content
+      return 1 + segmentContent.length;
+    } else {
+      // Special case: wildcard with no prefix matching remaining content
+      // directly. This happens after Fixed parts consume their content
+      return remaining.length;
+    }
+  }
+
+  #matchMultipleSegments(
+    remaining: string,
+    requireAtLeastOne: boolean,
+  ): number {
+    // For pathname components, content should start with '/'
+    if (this.urlComponentType === URLComponentType.Pathname) {
+      if (remaining.length === 0 || !remaining.startsWith('/')) {
+        // Return -1 to indicate failure for OneOrMore
+        return requireAtLeastOne ? -1 : 0;
+      }
+    } else {
+      // For non-pathname components (search, hash, etc.), content doesn't need
+      // to start with '/'
+      if (remaining.length === 0) {
+        return requireAtLeastOne ? -1 : 0;
+      }
+    }
+
+    // For WildcardPrefixTreeNode with children, backtracking is handled
+    // in the main match() method above. This method is only used when
+    // there are no children.
+    return remaining.length;
+  }
+
+  #matchOptionalSegment(remaining: string): number {
+    if (this.prefix || this.suffix) {
+      return this.#matchWithPrefixSuffix(remaining, false);
+    }
+
+    if (remaining.length === 0) {
+      return 0;
+    }
+
+    if (this.urlComponentType === URLComponentType.Pathname) {
+      if (remaining.startsWith('/')) {
+        // Standard case: wildcard with implicit / prefix
+        const segmentContent = remaining.slice(1);
+        if (segmentContent.length === 0) {
+          return 0;
+        }
+
+        // When there are no children to match, consume the entire remaining
+        // content
+        return 1 + segmentContent.length;
+      } else {
+        // Special case: wildcard with no prefix matching remaining content
+        // directly. This happens after Fixed parts consume their content
+        return remaining.length;
+      }
+    } else {
+      // For non-pathname components, match all remaining content
+      return remaining.length;
+    }
+  }
+
+  #matchWithPrefixSuffix(remaining: string, required: boolean): number {
+    // Check if remaining value starts with the prefix
+    if (remaining.length > 0 && remaining.startsWith(this.prefix)) {
+      const afterPrefix = remaining.slice(this.prefix.length);
+
+      if (this.suffix) {
+        // Find the suffix position
+        const suffixIndex = afterPrefix.indexOf(this.suffix);
+        if (suffixIndex > 0) {
+          // Must have content between prefix and suffix
+          // We found content between prefix and suffix
+          const content = afterPrefix.slice(0, suffixIndex);
+
+          // For pathname components, validate that content doesn't contain path
+          // separators. For other components (search, hash), slashes are valid
+          // content
+          if (this.urlComponentType === URLComponentType.Pathname) {
+            if (!content.includes('/')) {
+              // Return: prefix + content + suffix
+              return this.prefix.length + content.length + this.suffix.length;
+            }
+          } else {
+            // For non-pathname components, allow slashes in content
+            return this.prefix.length + content.length + this.suffix.length;
+          }
+        }
+      } else {
+        // No suffix - consume until end of current segment
+        let contentLength = 0;
+
+        if (this.urlComponentType === URLComponentType.Pathname) {
+          // For pathname: consume until next '/' (end of segment)
+          for (let i = 0; i < afterPrefix.length; i++) {
+            if (afterPrefix[i] === '/') {
+              break;
+            }
+            contentLength++;
+          }
+        } else {
+          // For non-pathname components: consume until end of string or next
+          // logical delimiter. Since we don't have a suffix, consume everything
+          // remaining
+          contentLength = afterPrefix.length;
+        }
+
+        if (contentLength > 0) {
+          // Return: prefix + content
+          return this.prefix.length + contentLength;
+        }
+      }
+    }
+
+    // Optional pattern - can match zero (no consumption) if not required
+    return required ? 0 : 0;
+  }
+
+  #matchOneOrMoreWithPrefix(remaining: string): number {
+    // For OneOrMore with prefix, we need to find all occurrences of the prefix
+    // and match as much as possible
+    if (!remaining.startsWith(this.prefix)) {
+      return -1; // OneOrMore requires at least one match
+    }
+
+    let totalConsumed = 0;
+    let currentRemaining = remaining;
+
+    // Keep matching prefix-based segments until we can't anymore
+    while (currentRemaining.startsWith(this.prefix)) {
+      const afterPrefix = currentRemaining.slice(this.prefix.length);
+
+      if (afterPrefix.length === 0) {
+        // Prefix at end of string - consume it
+        totalConsumed += this.prefix.length;
+        break;
+      }
+
+      // Find content length based on URL component type
+      let contentLength = 0;
+      if (this.urlComponentType === URLComponentType.Pathname) {
+        // For pathname: find content until next '/' (end of segment)
+        for (let i = 0; i < afterPrefix.length; i++) {
+          const char = afterPrefix[i];
+          if (char === '/') {
+            break;
+          }
+          contentLength++;
+        }
+      } else {
+        // For non-pathname components: consume all remaining content
+        // since we don't have clear segment boundaries
+        contentLength = afterPrefix.length;
+      }
+
+      if (contentLength > 0) {
+        // Consume prefix + content
+        const segmentLength = this.prefix.length + contentLength;
+        totalConsumed += segmentLength;
+        currentRemaining = currentRemaining.slice(segmentLength);
+
+        // For non-pathname components, we consumed everything, so break
+        if (this.urlComponentType !== URLComponentType.Pathname) {
+          break;
+        }
+      } else {
+        // No content after prefix, stop
+        break;
+      }
+    }
+
+    return totalConsumed > 0 ? totalConsumed : -1;
+  }
+}
+
+/**
+ * Node for full wildcard segments like '*'.
+ *
+ * @internal
+ */
+export class FullWildcardPrefixTreeNode<T> extends PrefixTreeNode<T> {
+  readonly modifier: number;
+
+  constructor(urlComponentType: URLComponentType, modifier: number) {
+    super(urlComponentType);
+    this.modifier = modifier;
+  }
+
+  matchesPart(part: Part): boolean {
+    return (
+      part.type === PartType.FullWildcard &&
+      part.urlComponentType === this.urlComponentType &&
+      part.modifier === this.modifier
+    );
+  }
+
+  match(
+    context: MatchContext,
+    componentIndex: number,
+    position: number,
+  ): URLPatternListItem<T> | null {
+    const {value, type} = context.urlComponents[componentIndex];
+    if (type !== this.urlComponentType) {
+      return null;
     }
 
-    // Expected text is not present - check if this is optional
-    if (this.modifier === Modifier.Optional) {
-      // Optional part not present - skip it and continue
-      return this.tryPatternsAndChildren(
-        urlComponents,
+    // For modifiers that support zero-match, try zero consumption first
+    if (
+      this.modifier === Modifier.ZeroOrMore ||
+      this.modifier === Modifier.Optional ||
+      this.modifier === Modifier.OneOrMore
+    ) {
+      const zeroMatch = this.tryPatternsAndChildren(
+        context,
         componentIndex,
         position,
-        fullUrl,
-        baseUrl,
       );
+      if (zeroMatch !== null) {
+        return zeroMatch;
+      }
+    }
+
+    if (this.children.length === 0) {
+      // We have no children, so consume everything remaining
+      if (value.length > position) {
+        return this.tryPatternsAndChildren(
+          context,
+          componentIndex,
+          value.length,
+        );
+      }
+    } else {
+      // We have children, so we need to be able to backtrack if necessary. We
+      // try to match greedily first, then backtrack character by character if
+      // we haven't found a match.
+      // TODO: Does this introduce a "catastrophic backtracking" vulnerability?
+      // We need to try pathological cases like '/*/*/index.html' and see how we
+      // can prevent exponential backtracking.
+      for (
+        let consumeLength = value.length - position;
+        consumeLength >= 0;
+        consumeLength--
+      ) {
+        const newPosition = position + consumeLength;
+        const match = this.tryPatternsAndChildren(
+          context,
+          componentIndex,
+          newPosition,
+        );
+        if (match !== null) {
+          return match;
+        }
+      }
     }
 
-    // Required part not present - no match
     return null;
   }
 }
 
 /**
- * Node for wildcard segments like ':id' or ':userId'. Wildcards with different
- * names are semantically equivalent and can share nodes.
+ * Node for regex segments. These are treated as leaves since regex patterns
+ * can be complex and may not be easily shareable.
  *
  * @internal
  */
-export class WildcardPrefixTreeNode<T> extends PrefixTreeNode<T> {
-  readonly modifier: number;
-  readonly prefix: string;
-  readonly suffix: string;
+export class RegexPrefixTreeNode<T> extends PrefixTreeNode<T> {
+  readonly regexString: string;
+  readonly regex: RegExp | null = null;
+  /**
+   * Whether the regex is matched with the `i` flag.
+   */
+  readonly ignoreCase: boolean;
 
   constructor(
     urlComponentType: URLComponentType,
-    modifier: number = Modifier.None,
-    prefix: string = '',
-    suffix: string = '',
+    regexString: string,
+    ignoreCase: boolean = false,
   ) {
     super(urlComponentType);
-    this.modifier = modifier;
-    this.prefix = prefix;
-    this.suffix = suffix;
+    this.regexString = regexString;
+    this.ignoreCase = ignoreCase;
+    try {
+      // The regex string should already be a complete regex pattern
+      // For alternation like 'small|large', we need to wrap in a group
+      let pattern = regexString;
+
+      // If the pattern contains alternation (|) but is not wrapped in
+      // parentheses, we need to wrap it to ensure the alternation is scoped
+      // correctly
+      if (pattern.includes('|') && !pattern.startsWith('(')) {
+        pattern = `(${pattern})`;
+      }
+
+      this.regex = new RegExp(`^${pattern}$`, ignoreCase ? 'i' : '');
+    } catch (error: any) {
+      // If regex is invalid, leave as null for fallback handling
+      this.regex = null;
+    }
   }
 
   matchesPart(part: Part): boolean {
+    // We don't attempt to do any complex sharing of regex patterns, so we just
+    // check if the regex is exactly the same. Prefix sharing is therefore much
+    // worse for regexes, and the main optimization is for fixed and wildcard
+    // segments.
     return (
-      part.type === PartType.SegmentWildcard &&
+      part.type === PartType.Regex &&
       part.urlComponentType === this.urlComponentType &&
-      part.modifier === this.modifier &&
-      part.prefix === this.prefix &&
-      part.suffix === this.suffix
+      part.value === this.regexString &&
+      (part.ignoreCase ?? false) === this.ignoreCase
     );
   }
 
   match(
-    urlComponents: Array<URLComponent>,
+    context: MatchContext,
     componentIndex: number,
     position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
   ): URLPatternListItem<T> | null {
-    const {value, type} = urlComponents[componentIndex];
+    const {value, type} = context.urlComponents[componentIndex];
     if (type !== this.urlComponentType) {
       return null;
     }
 
-    // Handle ZeroOrMore modifier with children using backtracking
-    if (this.modifier === Modifier.ZeroOrMore && this.children.length > 0) {
-      const remaining = value.slice(position);
+    if (position >= value.length) {
+      return null;
+    }
 
-      // First try zero consumption (ZeroOrMore allows consuming nothing)
-      const zeroMatch = this.tryPatternsAndChildren(
-        urlComponents,
-        componentIndex,
-        position,
-        fullUrl,
-        baseUrl,
-      );
-      if (zeroMatch !== null) {
-        return zeroMatch;
-      }
+    // Extract the segment to test
+    let segmentToTest: string;
+    let consumedChars: number;
 
-      // Then try consuming different amounts, from most to least
-      // This allows children to match whatever remains
-      if (remaining.length > 0 && remaining.startsWith('/')) {
-        const segments = remaining.split('/').slice(1); // Remove empty first element
+    if (this.urlComponentType === URLComponentType.Pathname) {
+      // For pathname components, use traditional slash-based segment extraction
+      if (value.startsWith('/', position)) {
+        // Regex with prefix "/" - extract segment after the "/"
+        const nextSlashIndex = value.indexOf('/', position + 1);
+        segmentToTest = value.slice(position + 1, nextSlashIndex >>> 0);
 
-        // Try consuming 1, 2, 3, ... segments
-        for (
-          let segmentCount = 1;
-          segmentCount <= segments.length;
-          segmentCount++
-        ) {
-          let consumedLength = 1; // leading slash
-          for (let i = 0; i < segmentCount; i++) {
-            consumedLength += segments[i].length;
-            if (i < segmentCount - 1) {
-              consumedLength += 1; // slash between segments
-            }
-          }
+        if (segmentToTest.length === 0) {
+          return null; // Must have content after "/"
+        }
 
-          const newPathIndex = position + consumedLength;
-          const match = this.tryPatternsAndChildren(
-            urlComponents,
-            componentIndex,
-            newPathIndex,
-            fullUrl,
-            baseUrl,
-          );
-          if (match !== null) {
-            return match;
-          }
+        // Test the segment against the regex
+        if (this.#testRegexPattern(segmentToTest)) {
+          consumedChars = 1 + segmentToTest.length; // "/" + segment length
+        } else {
+          return null;
+        }
+      } else {
+        // Regex without prefix - test remaining path segment
+        const nextSlashIndex = value.indexOf('/', position);
+        segmentToTest = value.slice(position, nextSlashIndex >>> 0);
+
+        if (segmentToTest.length === 0) {
+          return null;
+        }
+
+        // Test the segment against the regex
+        if (this.#testRegexPattern(segmentToTest)) {
+          consumedChars = segmentToTest.length;
+        } else {
+          return null;
         }
       }
+    } else {
+      // For non-pathname components (search, hash), test the entire remaining
+      // content
+      segmentToTest = value.slice(position);
+
+      if (segmentToTest.length === 0) {
+        return null;
+      }
+
+      // Test the segment against the regex
+      if (this.#testRegexPattern(segmentToTest)) {
+        consumedChars = segmentToTest.length;
+      } else {
+        return null;
+      }
+    }
+
+    return this.tryPatternsAndChildren(
+      context,
+      componentIndex,
+      position + consumedChars,
+    );
+  }
+
+  /**
+   * Test if a segment matches this regex pattern
+   */
+  #testRegexPattern(segment: string): boolean {
+    // Use cached compiled regex if available
+    if (this.regex) {
+      return this.regex.test(segment);
+    } else {
+      // If regex is invalid, fall back to allowing any content
+      // This ensures we don't break on malformed patterns
+      return true;
+    }
+  }
+}
+
+/**
+ * A collection of URL patterns and associated values, with methods for adding
+ * patterns and matching URLs against those patterns.
+ *
+ * This is an optimized collection where patterns are stored in a prefix
+ * tree instead of a flat list. Matching patterns are searched for on the tree
+ * and shared prefixes of patterns are only checked for a match once.
+ *
+ * The implementation maintains first-match-wins semantics - patterns are tested
+ * in the order they were added to the collection. This implementation should be
+ * a drop-in replacement for a linear search.
+ *
+ * Alternatively, with the `order: 'specificity'` option, the most specific
+ * matching pattern wins, as in many server routers.
+ */
+export class URLPatternList<T> {
+  #root: RootPrefixTreeNode<T>;
+  #sequenceCounter: number = 0;
+  #size = 0;
+  readonly #order: URLPatternListOrder;
+
+  /**
+   * Whether patterns were added in specificity order since sequences were
+   * last updated.
+   */
+  #sequencesOutdated = false;
+
+  /**
+   * Cached parts of each pattern, for analysis that needs the whole pattern
+   * rather than a path through the tree.
+   */
+  #parts = new WeakMap<URLPatternListItem<T>, ReadonlyArray<Part>>();
+
+  /**
+   * Cached specificity of each pattern, for specificity order.
+   */
+  #specificities = new WeakMap<URLPatternListItem<T>, Specificity>();
+
+  /**
+   * Whether `compile()` was called.
+   */
+  #compiled = false;
+
+  /**
+   * The compiled matcher. It's discarded whenever the tree changes, and
+   * compiled again on the next match.
+   */
+  #matcher: CompiledMatcher | undefined = undefined;
+
+  readonly #captureGroups: boolean;
+  readonly #verifyCaptureGroups: boolean;
+
+  /**
+   * Cached result of `canCaptureGroups()` for each pattern.
+   */
+  #capturable = new WeakMap<URLPatternListItem<T>, boolean>();
+
+  /**
+   * Cached `match()` results, if the `cacheSize` option is set.
+   */
+  readonly #cache: LRUCache<string, URLPatternListMatch<T> | null> | undefined;
+
+  /**
+   * Lists mounted in this list, in sequence order.
+   */
+  #mounts: Array<Mount<T>> = [];
+
+  /**
+   * Lists that this list is mounted in, whose caches depend on it.
+   */
+  readonly #parents = new Set<URLPatternList<T>>();
+
+  constructor(options: URLPatternListOptions = {}) {
+    this.#root = new RootPrefixTreeNode<T>();
+    this.#order = options.order ?? 'insertion';
+    this.#captureGroups = options.captureGroups ?? false;
+    this.#verifyCaptureGroups = options.verifyCaptureGroups ?? false;
+    const cacheSize = options.cacheSize ?? 0;
+    this.#cache = cacheSize === 0 ? undefined : new LRUCache(cacheSize);
+  }
 
-      return null;
-    }
+  /**
+   * The order in which patterns are matched.
+   */
+  get order(): URLPatternListOrder {
+    return this.#order;
+  }
 
-    // Handle OneOrMore modifier with children using backtracking
-    if (this.modifier === Modifier.OneOrMore && this.children.length > 0) {
-      const remaining = value.slice(position);
+  /**
+   * The number of patterns in the list, not counting the patterns of mounted
+   * lists.
+   */
+  get size(): number {
+    return this.#size;
+  }
 
-      // OneOrMore requires at least one segment, so don't try zero consumption
-      // Try consuming different amounts, from 1 segment to all segments
-      if (remaining.length > 0 && remaining.startsWith('/')) {
-        const segments = remaining.split('/').slice(1); // Remove empty first element
+  /**
+   * Add a URL pattern to the collection.
+   *
+   * The pattern can be a URLPattern, or a string or `URLPatternInit` to
+   * construct one from, so that route tables can be plain data:
+   *
+   * ```ts
+   * list.addPattern('/users/:id', 'user', {baseURL: 'https://example.com'});
+   * list.addPattern({pathname: '/posts/:id'}, 'post');
+   * ```
+   *
+   * Returns a handle that can be passed to `removePattern()` to remove the
+   * pattern again.
+   *
+   * For a string or `URLPatternInit` literal, the handle is typed with the
+   * params of the pattern's matches, like `{id: string}` for `'/users/:id'`,
+   * or `{id: number}` with `{params: {id: Number}}`. Get them with
+   * `URLPatternListItemParams`.
+   */
+  addPattern<
+    const P extends URLPatternListPatternInput,
+    D extends Record<string, unknown> = {},
+  >(
+    input: P,
+    value: T,
+    options?: URLPatternListAddOptions<ParamDecoders<D>>,
+  ): URLPatternListItem<
+    T,
+    DecodedParams<PatternInputParams<P>, ParamDecoders<D>>
+  >;
+  addPattern(
+    input: URLPatternListPatternInput,
+    value: T,
+    options: URLPatternListAddOptions = {},
+  ): URLPatternListItem<T> {
+    const pattern = toURLPattern(input, options);
+    const ignoreCase = options.ignoreCase ?? false;
+    const parts = parseFullURL(pattern, {ignoreCase});
+    const item = new PatternItem(this.#sequenceCounter++, {
+      pattern,
+      value,
+      ignoreCase,
+      ...getParamsOption(options, parts),
+    });
+    this.#addPatternToTree(this.#root, parts, 0, item);
+    this.#parts.set(item, parts);
+    this.#size++;
+    this.#matcher = undefined;
+    this.#clearCache();
+    if (this.#order === 'specificity') {
+      this.#specificities.set(item, getSpecificity(pattern, parts));
+      this.#sequencesOutdated = true;
+    }
+    return item;
+  }
 
-        // Try consuming 1, 2, 3, ... segments
-        for (
-          let segmentCount = 1;
-          segmentCount <= segments.length;
-          segmentCount++
-        ) {
-          let consumedLength = 1; // leading slash
-          for (let i = 0; i < segmentCount; i++) {
-            consumedLength += segments[i].length;
-            if (i < segmentCount - 1) {
-              consumedLength += 1; // slash between segments
-            }
-          }
+  /**
+   * Add many URL patterns to the collection at once.
+   *
+   * This is equivalent to calling `addPattern()` for each entry in order, and
+   * assigns the same sequences, but is faster for large numbers of patterns:
+   * all patterns are parsed first, and then the prefix tree is built in a
+   * single pass that looks up children in a map instead of searching them.
+   * If any pattern fails to parse, none are added.
+   *
+   * Returns the handles for the patterns, in the order of the entries.
+   */
+  addPatterns(
+    entries: Iterable<URLPatternListEntry<T>>,
+  ): Array<URLPatternListItem<T>> {
+    const unsequenced: Array<{
+      fields: Omit<URLPatternListItem<T>, 'sequence'>;
+      parts: Array<Part>;
+    }> = [];
+    for (const [input, value, options = {}] of entries) {
+      const pattern = toURLPattern(input, options);
+      const ignoreCase = options.ignoreCase ?? false;
+      const parts = parseFullURL(pattern, {ignoreCase});
+      unsequenced.push({
+        fields: {
+          pattern,
+          value,
+          ignoreCase,
+          ...getParamsOption(options, parts),
+        },
+        parts,
+      });
+    }
+    // Sequences are only assigned once every pattern has parsed
+    const parsed = unsequenced.map(({fields, parts}) => ({
+      item: new PatternItem(this.#sequenceCounter++, fields),
+      parts,
+    }));
+    this.#addParsedItems(parsed);
+    return parsed.map(({item}) => item);
+  }
 
-          const newPathIndex = position + consumedLength;
-          const match = this.tryPatternsAndChildren(
-            urlComponents,
-            componentIndex,
-            newPathIndex,
-            fullUrl,
-            baseUrl,
-          );
-          if (match !== null) {
-            return match;
-          }
-        }
+  /**
+   * Add items with their sequences assigned and their patterns parsed, in
+   * a single pass over the prefix tree.
+   */
+  #addParsedItems(
+    parsed: Array<{item: URLPatternListItem<T>; parts: ReadonlyArray<Part>}>,
+  ): void {
+    if (parsed.length === 0) {
+      return;
+    }
+    for (const {item, parts} of parsed) {
+      this.#parts.set(item, parts);
+      if (this.#order === 'specificity') {
+        this.#specificities.set(item, getSpecificity(item.pattern, parts));
+        this.#sequencesOutdated = true;
       }
+    }
+    this.#addPatternsToTree(
+      this.#root,
+      parsed.map(({item, parts}) => ({item, parts, index: 0})),
+    );
+    this.#size += parsed.length;
+    this.#matcher = undefined;
+    this.#clearCache();
+  }
 
-      return null;
+  /**
+   * Add every pattern and mount of another list to this list, after the
+   * patterns already in it.
+   *
+   * The patterns keep their order from the other list, with sequences
+   * following the ones in this list. Their parsed parts are reused, so the
+   * patterns aren't parsed again. The other list isn't changed, and mounted
+   * lists are shared between both lists.
+   *
+   * @param list - The list to add the patterns of
+   * @returns The handles for the added patterns, in match order
+   */
+  addAll(list: URLPatternList<T>): Array<URLPatternListItem<T>> {
+    if (list.#hasMounted(this)) {
+      throw new TypeError("A list can't be mounted in itself");
     }
+    list.#updateSequences();
+    const entries: Array<URLPatternListItem<T> | Mount<T>> = [
+      ...list.#collectItems(list.#root, []),
+      ...list.#mounts,
+    ].sort((a, b) => a.sequence - b.sequence);
 
-    // Handle Modifier.None with backtracking when we have children
-    if (this.modifier === Modifier.None && this.children.length > 0) {
-      const remaining = value.slice(position);
+    const parsed: Array<{
+      item: URLPatternListItem<T>;
+      parts: ReadonlyArray<Part>;
+    }> = [];
+    for (const entry of entries) {
+      const sequence = this.#sequenceCounter++;
+      if ('list' in entry) {
+        this.#addMount(
+          entry.pattern,
+          entry.ignoreCase ?? false,
+          entry.list,
+          sequence,
+          entry.parts,
+        );
+        continue;
+      }
+      parsed.push({
+        item: new PatternItem(sequence, entry),
+        parts: list.#getParts(entry),
+      });
+    }
+    this.#addParsedItems(parsed);
+    return parsed.map(({item}) => item);
+  }
 
-      // For wildcards with prefix/suffix, we need to be more careful about backtracking
-      if (this.prefix || this.suffix) {
-        // For prefix-based wildcards, try character-by-character consumption
-        // to allow subsequent Fixed parts to match
-        if (!remaining.startsWith(this.prefix)) {
-          return null;
-        }
+  /**
+   * Create a list with the patterns and mounts of each list in order, with
+   * `addAll()`.
+   *
+   * The new list has the default options. To merge lists into a list with
+   * other options, create it and call `addAll()` for each list.
+   *
+   * @param lists - The lists to merge
+   */
+  static concat<T>(...lists: Array<URLPatternList<T>>): URLPatternList<T> {
+    const merged = new URLPatternList<T>();
+    for (const list of lists) {
+      merged.addAll(list);
+    }
+    return merged;
+  }
 
-        const afterPrefix = remaining.slice(this.prefix.length);
-        if (afterPrefix.length === 0) {
-          return null; // Must have content after prefix
-        }
+  /**
+   * Create a list from patterns and values, with `addPatterns()`.
+   *
+   * @param entries - The patterns, their values, and options for
+   *     `addPattern()`
+   * @param options - Options for the list
+   */
+  static from<T>(
+    entries: Iterable<URLPatternListEntry<T>>,
+    options?: URLPatternListOptions,
+  ): URLPatternList<T> {
+    const list = new URLPatternList<T>(options);
+    list.addPatterns(entries);
+    return list;
+  }
 
-        // Try different consumption amounts, from minimal to maximal
-        for (
-          let contentLength = 1;
-          contentLength <= afterPrefix.length;
-          contentLength++
-        ) {
-          const consumption = this.prefix.length + contentLength;
-          const newPathIndex = position + consumption;
-          const match = this.tryPatternsAndChildren(
-            urlComponents,
-            componentIndex,
-            newPathIndex,
-            fullUrl,
-            baseUrl,
-          );
-          if (match !== null) {
-            return match;
-          }
-        }
+  /**
+   * Add patterns whose parts up to `index` end at `currentNode`, like
+   * `#addPatternToTree()` does for one pattern.
+   *
+   * The children of each node are indexed in a temporary map, so that
+   * patterns sharing a node are grouped without searching the children. New
+   * text doesn't continue into nodes merged by `optimize()`, and gets
+   * sibling nodes instead, which match the same URLs.
+   */
+  #addPatternsToTree(
+    currentNode: PrefixTreeNode<T>,
+    entries: Array<{
+      item: URLPatternListItem<T>;
+      parts: ReadonlyArray<Part>;
+      index: number;
+    }>,
+  ): void {
+    let children: Map<string, PrefixTreeNode<T>> | undefined;
+    const groups = new Map<PrefixTreeNode<T>, typeof entries>();
 
-        return null;
-      } else {
-        // For wildcards without prefix/suffix, use character-by-character backtracking
-        // This handles cases like :slug in /posts/:id-:slug-:category
-        if (remaining.length === 0) {
-          return null;
-        }
+    for (const entry of entries) {
+      const {item, parts, index} = entry;
+      if (item.sequence < currentNode.minSequence) {
+        currentNode.minSequence = item.sequence;
+      }
+      if (item.sequence > currentNode.maxSequence) {
+        currentNode.maxSequence = item.sequence;
+      }
+      if (index >= parts.length) {
+        currentNode.patterns.push(item);
+        continue;
+      }
 
-        // Try different consumption amounts, from minimal to maximal
-        for (
-          let contentLength = 1;
-          contentLength <= remaining.length;
-          contentLength++
-        ) {
-          const newPathIndex = position + contentLength;
-          const match = this.tryPatternsAndChildren(
-            urlComponents,
-            componentIndex,
-            newPathIndex,
-            fullUrl,
-            baseUrl,
-          );
-          if (match !== null) {
-            return match;
+      if (children === undefined) {
+        children = new Map();
+        for (const child of currentNode.children) {
+          const key = nodeKey(child);
+          if (key !== undefined && !children.has(key)) {
+            children.set(key, child);
           }
         }
+      }
+      const part = parts[index];
+      const key = partKey(part);
+      let child = children.get(key);
+      if (child === undefined) {
+        child = createNode<T>(part);
+        currentNode.addChild(child);
+        children.set(key, child);
+      }
 
-        return null;
+      let group = groups.get(child);
+      if (group === undefined) {
+        groups.set(child, (group = []));
       }
+      group.push({item, parts, index: index + 1});
     }
 
-    // For other cases, use the original logic
-    const remaining = value.slice(position);
-    let consumedChars: number;
-
-    switch (this.modifier) {
-      case Modifier.None:
-        consumedChars = this.#matchSingleSegment(remaining);
-        break;
-      case Modifier.ZeroOrMore:
-        // Already handled above if we have children
-        if (this.prefix && this.prefix !== '/') {
-          // Custom prefix (like '-' in group delimiters) - use prefix-based matching
-          consumedChars = this.#matchWithPrefixSuffix(remaining, false);
-        } else {
-          // Standard '/' prefix or no prefix - use traditional multi-segment matching
-          consumedChars = this.#matchMultipleSegments(remaining, false);
-        }
-        break;
-      case Modifier.OneOrMore:
-        if (this.prefix && this.prefix !== '/') {
-          // Custom prefix (like '-' in group delimiters) - use prefix-based matching
-          consumedChars = this.#matchOneOrMoreWithPrefix(remaining);
-        } else {
-          // Standard '/' prefix or no prefix - use traditional multi-segment matching
-          consumedChars = this.#matchMultipleSegments(remaining, true);
-        }
-        break;
-      case Modifier.Optional:
-        consumedChars = this.#matchOptionalSegment(remaining);
-        break;
-      default:
-        consumedChars = 0;
+    for (const [child, group] of groups) {
+      this.#addPatternsToTree(child, group);
     }
+  }
 
-    // For modifiers that support zero-match, try zero consumption first
-    if (
-      this.modifier === Modifier.ZeroOrMore ||
-      this.modifier === Modifier.Optional
-    ) {
-      const zeroMatch = this.tryPatternsAndChildren(
-        urlComponents,
-        componentIndex,
-        position,
-        fullUrl,
-        baseUrl,
-      );
-      if (zeroMatch !== null) {
-        return zeroMatch;
-      }
+  /**
+   * Remove a pattern from the collection.
+   *
+   * @param item - The handle returned by `addPattern()`
+   * @returns true if the pattern was found and removed
+   */
+  removePattern(item: URLPatternListItem<T>): boolean {
+    const path: Array<PrefixTreeNode<T>> = [];
+    if (!this.#findItemPath(this.#root, item, path)) {
+      return false;
     }
 
-    // Try normal consumption if we matched something
-    if (consumedChars > 0) {
-      const newPathIndex = position + consumedChars;
-      return this.tryPatternsAndChildren(
-        urlComponents,
-        componentIndex,
-        newPathIndex,
-        fullUrl,
-        baseUrl,
-      );
-    }
+    const leaf = path[path.length - 1];
+    leaf.patterns.splice(leaf.patterns.indexOf(item), 1);
+    this.#size--;
+    this.#matcher = undefined;
+    this.#clearCache();
 
-    // For OneOrMore, if we couldn't consume anything, we still need to check
-    // if zero-consumption is valid according to URLPattern semantics
-    if (this.modifier === Modifier.OneOrMore && consumedChars === 0) {
-      // Try zero consumption for OneOrMore to match URLPattern behavior
-      const zeroMatch = this.tryPatternsAndChildren(
-        urlComponents,
-        componentIndex,
-        position,
-        fullUrl,
-        baseUrl,
-      );
-      if (zeroMatch !== null) {
-        return zeroMatch;
+    // Walk back up the path, pruning nodes that no longer lead to any
+    // patterns and recomputing the sequences of the ones that remain.
+    for (let i = path.length - 1; i >= 0; i--) {
+      const node = path[i];
+      if (i > 0 && node.patterns.length === 0 && node.children.length === 0) {
+        path[i - 1].removeChild(node);
+        continue;
       }
+      node.updateSequences();
     }
-
-    return null;
+    return true;
   }
 
-  #matchSingleSegment(remaining: string): number {
-    if (this.prefix || this.suffix) {
-      return this.#matchWithPrefixSuffix(remaining, true);
+  /**
+   * Remove all patterns associated with the given value.
+   *
+   * Values are compared with `===`.
+   *
+   * @returns The number of patterns removed
+   */
+  removeValue(value: T): number {
+    const items = this.#collectItems(this.#root, []).filter(
+      (item) => item.value === value,
+    );
+    for (const item of items) {
+      this.removePattern(item);
     }
+    return items.length;
+  }
 
-    // Handle case where wildcard has no prefix and remaining doesn't start with
-    // `/` This happens in direct separation cases like /post/:id-:title where
-    // :title needs to match "foo" directly (not "/foo")
-    if (remaining.length === 0) {
-      return 0;
+  /**
+   * Check whether the list has a pattern with the same structure as the
+   * given pattern.
+   *
+   * Patterns are compared by their parsed parts, so patterns that are
+   * written differently but parse the same, like `/users/:id` and
+   * `{/users}/:id`, are the same. Group names count, and so does the
+   * `ignoreCase` option.
+   *
+   * @param pattern - The pattern, like `addPattern()` takes
+   * @param options - The options the pattern would be added with
+   */
+  has(
+    pattern: URLPatternListPatternInput,
+    options: URLPatternListAddOptions = {},
+  ): boolean {
+    const key = partsKey(
+      parseFullURL(toURLPattern(pattern, options), {
+        ignoreCase: options.ignoreCase ?? false,
+      }),
+    );
+    return this.#collectItems(this.#root, []).some(
+      (item) => partsKey(this.#getParts(item)) === key,
+    );
+  }
+
+  /**
+   * Iterate over the patterns and their values, in match order.
+   *
+   * Patterns of mounted lists aren't included.
+   */
+  *entries(): Generator<[pattern: URLPattern, value: T], void, undefined> {
+    this.#updateSequences();
+    const items = this.#collectItems(this.#root, []).sort(
+      (a, b) => a.sequence - b.sequence,
+    );
+    for (const {pattern, value} of items) {
+      yield [pattern, value];
     }
+  }
 
-    if (
-      this.urlComponentType === URLComponentType.Pathname &&
-      remaining.startsWith('/')
-    ) {
-      // Standard case: wildcard with implicit / prefix
-      const segmentContent = remaining.slice(1);
-      if (segmentContent.length === 0) {
-        return 0;
-      }
+  [Symbol.iterator](): Generator<
+    [pattern: URLPattern, value: T],
+    void,
+    undefined
+  > {
+    return this.entries();
+  }
 
-      // When there are no children to match, consume the entire remaining
-      // content
-      return 1 + segmentContent.length;
-    } else {
-      // Special case: wildcard with no prefix matching remaining content
-      // directly. This happens after Fixed parts consume their content
-      return remaining.length;
+  /**
+   * Remove every pattern and mount from the list.
+   */
+  clear(): void {
+    for (const mount of [...this.#mounts]) {
+      this.unmount(mount);
     }
+    this.#root = new RootPrefixTreeNode<T>();
+    this.#sequenceCounter = 0;
+    this.#size = 0;
+    this.#sequencesOutdated = false;
+    this.#matcher = undefined;
+    this.#clearCache();
   }
 
-  #matchMultipleSegments(
-    remaining: string,
-    requireAtLeastOne: boolean,
-  ): number {
-    // For pathname components, content should start with '/'
-    if (this.urlComponentType === URLComponentType.Pathname) {
-      if (remaining.length === 0 || !remaining.startsWith('/')) {
-        // Return -1 to indicate failure for OneOrMore
-        return requireAtLeastOne ? -1 : 0;
+  /**
+   * Create a deep copy of the list, with the same options.
+   *
+   * The prefix tree is copied node by node, so patterns aren't parsed again.
+   * The copy has its own handles for its patterns, and mounted lists are
+   * cloned as well.
+   */
+  clone(): URLPatternList<T> {
+    this.#updateSequences();
+    const list = new URLPatternList<T>({
+      order: this.#order,
+      captureGroups: this.#captureGroups,
+      verifyCaptureGroups: this.#verifyCaptureGroups,
+      cacheSize: this.#cache?.capacity ?? 0,
+    });
+    list.#root = cloneNode(this.#root, (item) => {
+      const copy = new PatternItem(item.sequence, item);
+      const parts = this.#parts.get(item);
+      if (parts !== undefined) {
+        list.#parts.set(copy, parts);
       }
-    } else {
-      // For non-pathname components (search, hash, etc.), content doesn't need
-      // to start with '/'
-      if (remaining.length === 0) {
-        return requireAtLeastOne ? -1 : 0;
+      const specificity = this.#specificities.get(item);
+      if (specificity !== undefined) {
+        list.#specificities.set(copy, specificity);
       }
+      return copy;
+    }) as RootPrefixTreeNode<T>;
+    list.#sequenceCounter = this.#sequenceCounter;
+    list.#size = this.#size;
+    list.#compiled = this.#compiled;
+    for (const mount of this.#mounts) {
+      list.#addMount(
+        mount.pattern,
+        mount.ignoreCase ?? false,
+        mount.list.clone(),
+        mount.sequence,
+        mount.parts,
+      );
     }
+    return list;
+  }
 
-    // For WildcardPrefixTreeNode with children, backtracking is handled
-    // in the main match() method above. This method is only used when
-    // there are no children.
-    return remaining.length;
+  /**
+   * Mount another list under a prefix pattern, so that URLs that match the
+   * prefix are matched against the other list with the rest of their
+   * pathname.
+   *
+   * ```ts
+   * const users = new URLPatternList<Handler>();
+   * users.addPattern({pathname: '/:id'}, getUser);
+   *
+   * const app = new URLPatternList<Handler>();
+   * app.mount({pathname: '/orgs/:org/users'}, users);
+   * app.match('https://example.com/orgs/acme/users/1');
+   * // The groups of the match are {org: 'acme', id: '1'}
+   * ```
+   *
+   * The mount takes the next position in match order, like a pattern does,
+   * and the mounted list's patterns match in its own order at that position.
+   * If none of them match, matching goes on with the patterns after the
+   * mount.
+   *
+   * The prefix matches its pathname and anything below it, like
+   * `/orgs/:org/users` followed by `{/*}?`. The mounted list matches a URL with
+   * the same components, except that the pathname is the rest of the
+   * pathname, or `/` if there's none. The match has the inputs of the full
+   * URL, and the groups of both the prefix and the mounted pattern, with the
+   * mounted pattern's groups taking precedence.
+   *
+   * Changes to the mounted list are seen by this list.
+   *
+   * @param prefix - The prefix pattern, like `addPattern()` takes
+   * @param list - The list to mount
+   * @param options - Options for the prefix pattern
+   * @returns A handle that can be passed to `unmount()`
+   */
+  mount(
+    prefix: URLPatternListPatternInput,
+    list: URLPatternList<T>,
+    options: URLPatternListAddOptions = {},
+  ): URLPatternListMount<T> {
+    if (list === this || list.#hasMounted(this)) {
+      throw new TypeError("A list can't be mounted in itself");
+    }
+    const prefixPattern = toURLPattern(prefix, options);
+    const ignoreCase = options.ignoreCase ?? false;
+    const init = getPatternInit(prefixPattern);
+    // A pathname of `*` already matches the whole pathname
+    const {pathname} = prefixPattern;
+    if (pathname !== '*') {
+      init.pathname = `${pathname.endsWith('/') ? pathname.slice(0, -1) : pathname}{/*}?`;
+    }
+    return this.#addMount(
+      new URLPattern(init, {ignoreCase}),
+      ignoreCase,
+      list,
+      this.#sequenceCounter++,
+    );
   }
 
-  #matchOptionalSegment(remaining: string): number {
-    if (this.prefix || this.suffix) {
-      return this.#matchWithPrefixSuffix(remaining, false);
+  #addMount(
+    pattern: URLPattern,
+    ignoreCase: boolean,
+    list: URLPatternList<T>,
+    sequence: number,
+    parts: ReadonlyArray<Part> = parseFullURL(pattern, {ignoreCase}),
+  ): Mount<T> {
+    const rest = parts.findLast(
+      (part) => part.urlComponentType === URLComponentType.Pathname,
+    );
+    const mount: Mount<T> = {
+      sequence,
+      pattern,
+      list,
+      ignoreCase,
+      parts,
+      restGroup: String(pattern.pathname === '*' ? 0 : rest?.name),
+    };
+    this.#mounts.push(mount);
+    this.#mounts.sort((a, b) => a.sequence - b.sequence);
+    list.#parents.add(this);
+    this.#clearCache();
+    if (this.#order === 'specificity') {
+      this.#sequencesOutdated = true;
     }
+    return mount;
+  }
 
-    if (remaining.length === 0) {
-      return 0;
+  /**
+   * Unmount a list mounted with `mount()`.
+   *
+   * @param mount - The handle returned by `mount()`
+   * @returns true if the mount was found and removed
+   */
+  unmount(mount: URLPatternListMount<T>): boolean {
+    const index = this.#mounts.indexOf(mount as Mount<T>);
+    if (index === -1) {
+      return false;
     }
+    this.#mounts.splice(index, 1);
+    if (!this.#mounts.some((other) => other.list === mount.list)) {
+      mount.list.#parents.delete(this);
+    }
+    this.#clearCache();
+    return true;
+  }
 
-    if (this.urlComponentType === URLComponentType.Pathname) {
-      if (remaining.startsWith('/')) {
-        // Standard case: wildcard with implicit / prefix
-        const segmentContent = remaining.slice(1);
-        if (segmentContent.length === 0) {
-          return 0;
-        }
+  /**
+   * Check whether a list is mounted in this list, or in a list mounted in it.
+   */
+  #hasMounted(list: URLPatternList<T>): boolean {
+    return this.#mounts.some(
+      (mount) => mount.list === list || mount.list.#hasMounted(list),
+    );
+  }
 
-        // When there are no children to match, consume the entire remaining
-        // content
-        return 1 + segmentContent.length;
-      } else {
-        // Special case: wildcard with no prefix matching remaining content
-        // directly. This happens after Fixed parts consume their content
-        return remaining.length;
-      }
-    } else {
-      // For non-pathname components, match all remaining content
-      return remaining.length;
+  /**
+   * Clear the `match()` cache of this list and of the lists it's mounted in.
+   */
+  #clearCache(): void {
+    this.#cache?.clear();
+    for (const parent of this.#parents) {
+      parent.#clearCache();
     }
   }
 
-  #matchWithPrefixSuffix(remaining: string, required: boolean): number {
-    // Check if remaining value starts with the prefix
-    if (remaining.length > 0 && remaining.startsWith(this.prefix)) {
-      const afterPrefix = remaining.slice(this.prefix.length);
+  /**
+   * Append every item in the subtree rooted at `node` to `items`.
+   */
+  #collectItems(
+    node: PrefixTreeNode<T>,
+    items: Array<URLPatternListItem<T>>,
+  ): Array<URLPatternListItem<T>> {
+    items.push(...node.patterns);
+    for (const child of node.children) {
+      this.#collectItems(child, items);
+    }
+    return items;
+  }
 
-      if (this.suffix) {
-        // Find the suffix position
-        const suffixIndex = afterPrefix.indexOf(this.suffix);
-        if (suffixIndex > 0) {
-          // Must have content between prefix and suffix
-          // We found content between prefix and suffix
-          const content = afterPrefix.slice(0, suffixIndex);
+  /**
+   * In specificity order, reassign sequence numbers so that they follow the
+   * specificity of each pattern.
+   *
+   * This is done lazily before the tree is matched against, so that adding
+   * many patterns only sorts once. Ties are broken by the previous sequence,
+   * which keeps patterns of equal specificity in the order they were added.
+   */
+  #updateSequences(): void {
+    if (!this.#sequencesOutdated) {
+      return;
+    }
+    this.#sequencesOutdated = false;
+    this.#matcher = undefined;
 
-          // For pathname components, validate that content doesn't contain path
-          // separators. For other components (search, hash), slashes are valid
-          // content
-          if (this.urlComponentType === URLComponentType.Pathname) {
-            if (!content.includes('/')) {
-              // Return: prefix + content + suffix
-              return this.prefix.length + content.length + this.suffix.length;
-            }
-          } else {
-            // For non-pathname components, allow slashes in content
-            return this.prefix.length + content.length + this.suffix.length;
-          }
-        }
+    // Mounts are ordered among the patterns by their prefix pattern
+    const entries: Array<{
+      target: URLPatternListItem<T> | Mount<T>;
+      specificity: Specificity;
+    }> = [
+      ...this.#collectItems(this.#root, []).map((item) => ({
+        target: item,
+        specificity: this.#getSpecificity(item),
+      })),
+      ...this.#mounts.map((mount) => ({
+        target: mount,
+        specificity: getSpecificity(mount.pattern, mount.parts),
+      })),
+    ];
+    entries.sort(
+      (a, b) =>
+        compareSpecificity(a.specificity, b.specificity) ||
+        a.target.sequence - b.target.sequence,
+    );
+    entries.forEach(({target}, i) => {
+      // Sequences are only ever reassigned here
+      if ('list' in target) {
+        target.sequence = i;
       } else {
-        // No suffix - consume until end of current segment
-        let contentLength = 0;
-
-        if (this.urlComponentType === URLComponentType.Pathname) {
-          // For pathname: consume until next '/' (end of segment)
-          for (let i = 0; i < afterPrefix.length; i++) {
-            if (afterPrefix[i] === '/') {
-              break;
-            }
-            contentLength++;
-          }
-        } else {
-          // For non-pathname components: consume until end of string or next
-          // logical delimiter. Since we don't have a suffix, consume everything
-          // remaining
-          contentLength = afterPrefix.length;
-        }
-
-        if (contentLength > 0) {
-          // Return: prefix + content
-          return this.prefix.length + contentLength;
-        }
+        PatternItem.setSequence(target, i);
       }
-    }
+    });
+    this.#sequenceCounter = entries.length;
+    this.#mounts.sort((a, b) => a.sequence - b.sequence);
 
-    // Optional pattern - can match zero (no consumption) if not required
-    return required ? 0 : 0;
+    const updateNode = (node: PrefixTreeNode<T>) => {
+      for (const child of node.children) {
+        updateNode(child);
+      }
+      node.updateSequences();
+    };
+    updateNode(this.#root);
   }
 
-  #matchOneOrMoreWithPrefix(remaining: string): number {
-    // For OneOrMore with prefix, we need to find all occurrences of the prefix
-    // and match as much as possible
-    if (!remaining.startsWith(this.prefix)) {
-      return -1; // OneOrMore requires at least one match
+  #getSpecificity(item: URLPatternListItem<T>): Specificity {
+    let specificity = this.#specificities.get(item);
+    if (specificity === undefined) {
+      specificity = getSpecificity(item.pattern, this.#getParts(item));
+      this.#specificities.set(item, specificity);
     }
+    return specificity;
+  }
 
-    let totalConsumed = 0;
-    let currentRemaining = remaining;
-
-    // Keep matching prefix-based segments until we can't anymore
-    while (currentRemaining.startsWith(this.prefix)) {
-      const afterPrefix = currentRemaining.slice(this.prefix.length);
-
-      if (afterPrefix.length === 0) {
-        // Prefix at end of string - consume it
-        totalConsumed += this.prefix.length;
-        break;
-      }
+  #getParts(item: URLPatternListItem<T>): ReadonlyArray<Part> {
+    let parts = this.#parts.get(item);
+    if (parts === undefined) {
+      // Items restored by fromJSON() weren't parsed, so parse them now
+      parts = parseFullURL(item.pattern, {
+        ignoreCase: item.ignoreCase ?? false,
+      });
+      this.#parts.set(item, parts);
+    }
+    return parts;
+  }
 
-      // Find content length based on URL component type
-      let contentLength = 0;
-      if (this.urlComponentType === URLComponentType.Pathname) {
-        // For pathname: find content until next '/' (end of segment)
-        for (let i = 0; i < afterPrefix.length; i++) {
-          const char = afterPrefix[i];
-          if (char === '/') {
-            break;
-          }
-          contentLength++;
-        }
-      } else {
-        // For non-pathname components: consume all remaining content
-        // since we don't have clear segment boundaries
-        contentLength = afterPrefix.length;
+  /**
+   * Find patterns that can never match, because every URL they match is
+   * matched by a pattern earlier in match order.
+   *
+   * The analysis compares the parsed parts of each pair of patterns: fixed
+   * text, `:param` segments, `*` wildcards and their modifiers. It is
+   * conservative, so a pattern is only reported if it's certainly shadowed.
+   * For example, `/users/:id` shadows a later `/users/new`, and `/files/*`
+   * shadows a later `/files/:name`, but no regex is assumed to cover another.
+   *
+   * @returns The shadowed items in match order, each with the first earlier
+   *   item that covers it
+   */
+  findShadowedPatterns(): Array<URLPatternListShadowedPattern<T>> {
+    this.#updateSequences();
+    const items = this.#collectItems(this.#root, []).sort(
+      (a, b) => a.sequence - b.sequence,
+    );
+    const shadowed: Array<URLPatternListShadowedPattern<T>> = [];
+    for (let j = 1; j < items.length; j++) {
+      const item = items[j];
+      const parts = this.#getParts(item);
+      const shadowedBy = items
+        .slice(0, j)
+        .find((earlier) =>
+          coversPattern(
+            earlier.pattern,
+            this.#getParts(earlier),
+            item.pattern,
+            parts,
+          ),
+        );
+      if (shadowedBy !== undefined) {
+        shadowed.push({item, shadowedBy});
       }
+    }
+    return shadowed;
+  }
 
-      if (contentLength > 0) {
-        // Consume prefix + content
-        const segmentLength = this.prefix.length + contentLength;
-        totalConsumed += segmentLength;
-        currentRemaining = currentRemaining.slice(segmentLength);
-
-        // For non-pathname components, we consumed everything, so break
-        if (this.urlComponentType !== URLComponentType.Pathname) {
-          break;
+  /**
+   * Build a URL for a pattern in the list from values for its parameters.
+   * This is the reverse of matching, and can be used to generate links to
+   * routes.
+   *
+   * Every URL component constrained by the pattern is rendered. If the
+   * pattern doesn't constrain the hostname, the result is a path-absolute URL
+   * like `/users/42`. Parameter values are inserted as-is, so they should be
+   * percent-encoded like the groups of a `URLPatternResult`.
+   *
+   * Throws a TypeError if a required parameter is missing, if a value
+   * doesn't match the regex of its part, or if the pattern constrains the
+   * protocol, username, password or port without the hostname.
+   *
+   * @param valueOrItem - A handle returned by `addPattern()`, or a value, in
+   *   which case the first pattern in match order with that value is used
+   * @param params - Parameter values by group name
+   */
+  buildURL(
+    valueOrItem: T | URLPatternListItem<T>,
+    params: URLPatternListParams = {},
+  ): string {
+    this.#updateSequences();
+    const items = this.#collectItems(this.#root, []);
+    let item = items.find((item) => item === valueOrItem);
+    if (item === undefined) {
+      for (const candidate of items) {
+        if (
+          candidate.value === valueOrItem &&
+          (item === undefined || candidate.sequence < item.sequence)
+        ) {
+          item = candidate;
         }
-      } else {
-        // No content after prefix, stop
-        break;
       }
     }
-
-    return totalConsumed > 0 ? totalConsumed : -1;
-  }
-}
-
-/**
- * Node for full wildcard segments like '*'.
- *
- * @internal
- */
-export class FullWildcardPrefixTreeNode<T> extends PrefixTreeNode<T> {
-  readonly modifier: number;
-
-  constructor(urlComponentType: URLComponentType, modifier: number) {
-    super(urlComponentType);
-    this.modifier = modifier;
+    if (item === undefined) {
+      throw new TypeError('No pattern in the list has the given value');
+    }
+    // Parts parsed with ignoreCase have lowercased fixed text, so parse them
+    // again to render the pattern's own case
+    const parts = item.ignoreCase
+      ? parseFullURL(item.pattern)
+      : this.#getParts(item);
+    return buildPatternURL(item.pattern, parts, params, {
+      ignoreCase: item.ignoreCase ?? false,
+    });
   }
 
-  matchesPart(part: Part): boolean {
-    return (
-      part.type === PartType.FullWildcard &&
-      part.urlComponentType === this.urlComponentType &&
-      part.modifier === this.modifier
-    );
+  /**
+   * Find the path of nodes from `node` to the node that stores `item`. The
+   * path is appended to `path`, which is left unchanged if the item isn't
+   * found.
+   */
+  #findItemPath(
+    node: PrefixTreeNode<T>,
+    item: URLPatternListItem<T>,
+    path: Array<PrefixTreeNode<T>>,
+  ): boolean {
+    // No pattern in this subtree can have an earlier sequence than
+    // minSequence, so we can skip subtrees that can't contain the item.
+    if (item.sequence < node.minSequence) {
+      return false;
+    }
+    path.push(node);
+    if (node.patterns.includes(item)) {
+      return true;
+    }
+    for (const child of node.children) {
+      if (this.#findItemPath(child, item, path)) {
+        return true;
+      }
+    }
+    path.pop();
+    return false;
   }
 
-  match(
-    urlComponents: Array<URLComponent>,
+  /**
+   * Recursively add a pattern to the tree, creating nodes as needed.
+   */
+  #addPatternToTree(
+    currentNode: PrefixTreeNode<T>,
+    parts: Array<Part>,
     componentIndex: number,
-    position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
-  ): URLPatternListItem<T> | null {
-    const {value, type} = urlComponents[componentIndex];
-    if (type !== this.urlComponentType) {
-      return null;
+    item: URLPatternListItem<T>,
+  ): void {
+    if (item.sequence < currentNode.minSequence) {
+      currentNode.minSequence = item.sequence;
+    }
+    if (item.sequence > currentNode.maxSequence) {
+      currentNode.maxSequence = item.sequence;
     }
 
-    // For modifiers that support zero-match, try zero consumption first
+    // If we've consumed all parts, this pattern ends at this node
+    if (componentIndex >= parts.length) {
+      currentNode.patterns.push(item);
+      return;
+    }
+
+    // Fixed parts may continue into a node merged by optimize()
+    const merged = this.#getMergedChildNode(currentNode, parts, componentIndex);
+    if (merged !== undefined) {
+      this.#addPatternToTree(merged.node, parts, merged.next, item);
+      return;
+    }
+
+    const part = parts[componentIndex];
+    const childNode = this.#getOrCreateChildNode(currentNode, part);
+
+    // Continue building the tree with the next part
+    this.#addPatternToTree(childNode, parts, componentIndex + 1, item);
+  }
+
+  /**
+   * Find a fixed child, merged from several fixed parts by `optimize()`, that
+   * starts with the fixed parts at `index`.
+   *
+   * If the parts cover the whole child, it's returned with the index of the
+   * part after them. If they diverge partway, the child is split after the
+   * last part they share, and the new upper node is returned instead.
+   */
+  #getMergedChildNode(
+    parent: PrefixTreeNode<T>,
+    parts: Array<Part>,
+    index: number,
+  ): {node: PrefixTreeNode<T>; next: number} | undefined {
+    const part = parts[index];
     if (
-      this.modifier === Modifier.ZeroOrMore ||
-      this.modifier === Modifier.Optional ||
-      this.modifier === Modifier.OneOrMore
+      !isMergeablePart(part) ||
+      part.value === '' ||
+      parent.children.some((child) => child.matchesPart(part))
     ) {
-      const zeroMatch = this.tryPatternsAndChildren(
-        urlComponents,
-        componentIndex,
-        position,
-        fullUrl,
-        baseUrl,
-      );
-      if (zeroMatch !== null) {
-        return zeroMatch;
+      return undefined;
+    }
+    const ignoreCase = part.ignoreCase ?? false;
+    for (const child of parent.children) {
+      if (
+        !isMergeableNode(child) ||
+        child.urlComponentType !== part.urlComponentType ||
+        child.ignoreCase !== ignoreCase ||
+        !child.value.startsWith(part.value)
+      ) {
+        continue;
+      }
+      let length = 0;
+      let next = index;
+      while (
+        next < parts.length &&
+        isMergeablePart(parts[next]) &&
+        parts[next].urlComponentType === child.urlComponentType &&
+        (parts[next].ignoreCase ?? false) === ignoreCase &&
+        length + parts[next].value.length <= child.value.length &&
+        child.value.startsWith(parts[next].value, length)
+      ) {
+        length += parts[next].value.length;
+        next++;
       }
+      if (length === child.value.length) {
+        return {node: child, next};
+      }
+      return {node: this.#splitFixedNode(parent, child, length), next};
     }
+    return undefined;
+  }
 
-    if (this.children.length === 0) {
-      // We have no children, so consume everything remaining
-      if (value.length > position) {
-        return this.tryPatternsAndChildren(
-          urlComponents,
-          componentIndex,
-          value.length,
-          fullUrl,
-          baseUrl,
-        );
-      }
-    } else {
-      // We have children, so we need to be able to backtrack if necessary. We
-      // try to match greedily first, then backtrack character by character if
-      // we haven't found a match.
-      // TODO: Does this introduce a "catastrophic backtracking" vulnerability?
-      // We need to try pathological cases like '/*/*/index.html' and see how we
-      // can prevent exponential backtracking.
-      for (
-        let consumeLength = value.length - position;
-        consumeLength >= 0;
-        consumeLength--
+  /**
+   * Split a fixed node in two at `length`, replacing it in its parent.
+   * Returns the upper node.
+   */
+  #splitFixedNode(
+    parent: PrefixTreeNode<T>,
+    node: FixedPrefixTreeNode<T>,
+    length: number,
+  ): FixedPrefixTreeNode<T> {
+    const {urlComponentType, value, ignoreCase} = node;
+    const upper = new FixedPrefixTreeNode<T>(
+      urlComponentType,
+      value.slice(0, length),
+      Modifier.None,
+      ignoreCase,
+    );
+    const lower = new FixedPrefixTreeNode<T>(
+      urlComponentType,
+      value.slice(length),
+      Modifier.None,
+      ignoreCase,
+    );
+    lower.patterns.push(...node.patterns);
+    for (const child of node.children) {
+      lower.addChild(child);
+    }
+    lower.minSequence = upper.minSequence = node.minSequence;
+    lower.maxSequence = upper.maxSequence = node.maxSequence;
+    upper.addChild(lower);
+    parent.replaceChild(node, upper);
+    return upper;
+  }
+
+  /**
+   * Merge chains of fixed nodes below `node` that don't branch.
+   */
+  #mergeFixedChains(node: PrefixTreeNode<T>): void {
+    for (const child of node.children) {
+      let merged = child;
+      while (
+        isMergeableNode(merged) &&
+        merged.patterns.length === 0 &&
+        merged.children.length === 1
       ) {
-        const newPosition = position + consumeLength;
-        const match = this.tryPatternsAndChildren(
-          urlComponents,
-          componentIndex,
-          newPosition,
-          fullUrl,
-          baseUrl,
+        const next = merged.children[0];
+        if (
+          !isMergeableNode(next) ||
+          next.urlComponentType !== merged.urlComponentType ||
+          next.ignoreCase !== merged.ignoreCase
+        ) {
+          break;
+        }
+        const combined = new FixedPrefixTreeNode<T>(
+          merged.urlComponentType,
+          merged.value + next.value,
+          Modifier.None,
+          merged.ignoreCase,
         );
-        if (match !== null) {
-          return match;
+        combined.patterns.push(...next.patterns);
+        for (const grandchild of next.children) {
+          combined.addChild(grandchild);
         }
+        combined.minSequence = next.minSequence;
+        combined.maxSequence = next.maxSequence;
+        merged = combined;
+      }
+      if (merged !== child) {
+        node.replaceChild(child, merged);
       }
+      this.#mergeFixedChains(merged);
     }
-
-    return null;
   }
-}
-
-/**
- * Node for regex segments. These are treated as leaves since regex patterns
- * can be complex and may not be easily shareable.
- *
- * @internal
- */
-export class RegexPrefixTreeNode<T> extends PrefixTreeNode<T> {
-  readonly regexString: string;
-  readonly regex: RegExp | null = null;
-
-  constructor(urlComponentType: URLComponentType, regexString: string) {
-    super(urlComponentType);
-    this.regexString = regexString;
-    try {
-      // The regex string should already be a complete regex pattern
-      // For alternation like 'small|large', we need to wrap in a group
-      let pattern = regexString;
 
-      // If the pattern contains alternation (|) but is not wrapped in
-      // parentheses, we need to wrap it to ensure the alternation is scoped
-      // correctly
-      if (pattern.includes('|') && !pattern.startsWith('(')) {
-        pattern = `(${pattern})`;
+  /**
+   * Get or create a child node for the given part. Returns an existing node
+   * if it matches the part, or creates a new node if not found.
+   */
+  #getOrCreateChildNode(
+    parent: PrefixTreeNode<T>,
+    part: Part,
+  ): PrefixTreeNode<T> {
+    for (const child of parent.children) {
+      if (child.matchesPart(part)) {
+        return child;
       }
-
-      this.regex = new RegExp(`^${pattern}$`);
-    } catch (error: any) {
-      // If regex is invalid, leave as null for fallback handling
-      this.regex = null;
     }
-  }
 
-  matchesPart(part: Part): boolean {
-    // We don't attempt to do any complex sharing of regex patterns, so we just
-    // check if the regex is exactly the same. Prefix sharing is therefore much
-    // worse for regexes, and the main optimization is for fixed and wildcard
-    // segments.
-    return (
-      part.type === PartType.Regex &&
-      part.urlComponentType === this.urlComponentType &&
-      part.value === this.regexString
-    );
+    const node = createNode<T>(part);
+    parent.addChild(node);
+    return node;
   }
 
+  /**
+   * Match a URL against the URLPatterns, returning the first match found and
+   * its associated value.
+   *
+   * The URL can also be a `URLPatternInit` like `{pathname: '/users/1'}`,
+   * which is matched like `URLPattern.exec()` matches it, without having to
+   * be a full URL.
+   *
+   * With the `cacheSize` option, the same match object is returned for
+   * repeated matches of a URL, so it shouldn't be modified. Matches of a
+   * `URLPatternInit` aren't cached.
+   *
+   * @param url - The URL to match
+   * @param baseUrl - Optional base URL for relative path resolution. Can't be
+   *     used with a `URLPatternInit`, which has its own `baseURL` property.
+   */
   match(
-    urlComponents: Array<URLComponent>,
-    componentIndex: number,
-    position: number,
-    fullUrl: string,
-    baseUrl: string | undefined,
-  ): URLPatternListItem<T> | null {
-    const {value, type} = urlComponents[componentIndex];
-    if (type !== this.urlComponentType) {
-      return null;
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): URLPatternListMatch<T> | null {
+    this.#updateSequences();
+    const cache = this.#cache;
+    if (
+      cache === undefined ||
+      !(typeof url === 'string' || url instanceof URL)
+    ) {
+      return this.#match(url, baseUrl);
     }
-
-    if (position >= value.length) {
-      return null;
+    const parsed = typeof url === 'string' ? new URL(url, baseUrl) : url;
+    // URLs can't contain newlines, so the key can't be ambiguous
+    const key =
+      baseUrl === undefined ? parsed.href : `${parsed.href}\n${baseUrl}`;
+    let match = cache.get(key);
+    if (match === undefined) {
+      match = this.#match(parsed, baseUrl);
+      cache.set(key, match);
     }
+    return match;
+  }
 
-    // Extract the segment to test
-    let segmentToTest: string;
-    let consumedChars: number;
-
-    if (this.urlComponentType === URLComponentType.Pathname) {
-      // For pathname components, use traditional slash-based segment extraction
-      if (value.startsWith('/', position)) {
-        // Regex with prefix "/" - extract segment after the "/"
-        const nextSlashIndex = value.indexOf('/', position + 1);
-        segmentToTest = value.slice(position + 1, nextSlashIndex >>> 0);
-
-        if (segmentToTest.length === 0) {
-          return null; // Must have content after "/"
-        }
-
-        // Test the segment against the regex
-        if (this.#testRegexPattern(segmentToTest)) {
-          consumedChars = 1 + segmentToTest.length; // "/" + segment length
-        } else {
-          return null;
-        }
-      } else {
-        // Regex without prefix - test remaining path segment
-        const nextSlashIndex = value.indexOf('/', position);
-        segmentToTest = value.slice(position, nextSlashIndex >>> 0);
+  #match(
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): URLPatternListMatch<T> | null {
+    return this.#findMatch(this.#createMatchContext(url, baseUrl));
+  }
 
-        if (segmentToTest.length === 0) {
-          return null;
-        }
+  /**
+   * Find the first match for a context.
+   */
+  #findMatch(context: MatchContext): URLPatternListMatch<T> | null {
+    if (this.#mounts.length > 0) {
+      return this.#findMatches(context).next().value ?? null;
+    }
+    const item = this.#matchTree(context);
+    if (item === null) {
+      return null;
+    }
+    const match = this.#getMatch(item, context);
+    // A pattern whose params are rejected doesn't match, so the search
+    // continues after it
+    return match === null && item.params !== undefined
+      ? (this.#findMatches({...context, after: item.sequence}).next().value ??
+          null)
+      : match;
+  }
 
-        // Test the segment against the regex
-        if (this.#testRegexPattern(segmentToTest)) {
-          consumedChars = segmentToTest.length;
-        } else {
-          return null;
+  /**
+   * Find every match for a context, in order, including the matches of
+   * mounted lists.
+   */
+  *#findMatches(
+    context: MatchContext,
+  ): Generator<URLPatternListMatch<T>, void, undefined> {
+    while (true) {
+      const item = this.#matchTree(context);
+      const end = item?.sequence ?? Infinity;
+      for (const mount of this.#mounts) {
+        if (mount.sequence > context.after && mount.sequence < end) {
+          yield* this.#matchMount(mount, context);
         }
       }
-    } else {
-      // For non-pathname components (search, hash), test the entire remaining
-      // content
-      segmentToTest = value.slice(position);
-
-      if (segmentToTest.length === 0) {
-        return null;
+      if (item === null) {
+        return;
       }
-
-      // Test the segment against the regex
-      if (this.#testRegexPattern(segmentToTest)) {
-        consumedChars = segmentToTest.length;
-      } else {
-        return null;
+      const match = this.#getMatch(item, context);
+      if (match !== null) {
+        yield match;
       }
+      context = {...context, after: item.sequence};
     }
-
-    return this.tryPatternsAndChildren(
-      urlComponents,
-      componentIndex,
-      position + consumedChars,
-      fullUrl,
-      baseUrl,
-    );
   }
 
   /**
-   * Test if a segment matches this regex pattern
+   * Match the rest of a URL against a mounted list, if the URL matches the
+   * mount's prefix.
    */
-  #testRegexPattern(segment: string): boolean {
-    // Use cached compiled regex if available
-    if (this.regex) {
-      return this.regex.test(segment);
-    } else {
-      // If regex is invalid, fall back to allowing any content
-      // This ensures we don't break on malformed patterns
-      return true;
+  *#matchMount(
+    mount: Mount<T>,
+    context: MatchContext,
+  ): Generator<URLPatternListMatch<T>, void, undefined> {
+    const {input, baseUrl} = context;
+    const result = baseUrl
+      ? mount.pattern.exec(input, baseUrl)
+      : mount.pattern.exec(input);
+    if (result === null) {
+      return;
+    }
+    const rest = result.pathname.groups[mount.restGroup] ?? '';
+    const init: URLPatternInit = {
+      pathname: mount.pattern.pathname === '*' ? rest : `/${rest}`,
+    };
+    for (const name of urlComponentNames) {
+      if (name !== 'pathname' && result[name].input !== '') {
+        init[name] = result[name].input;
+      }
+    }
+    for (const match of mount.list.matchAll(init)) {
+      const merged = mergeMountResult(mount, result, match.result);
+      yield {
+        result: merged,
+        value: match.value,
+        // Add the groups of the prefix to the decoded groups of the pattern
+        params: {...getNamedGroups(merged), ...match.params},
+      };
     }
   }
-}
-
-/**
- * A collection of URL patterns and associated values, with methods for adding
- * patterns and matching URLs against those patterns.
- *
- * This is an optimized collection where patterns are stored in a prefix
- * tree instead of a flat list. Matching patterns are searched for on the tree
- * and shared prefixes of patterns are only checked for a match once.
- *
- * The implementation maintains first-match-wins semantics - patterns are tested
- * in the order they were added to the collection. This implementation should be
- * a drop-in replacement for a linear search.
- */
-export class URLPatternList<T> {
-  #root: RootPrefixTreeNode<T>;
-  #sequenceCounter: number = 0;
 
-  constructor() {
-    this.#root = new RootPrefixTreeNode<T>();
+  /**
+   * Statistics of the `match()` result cache enabled by the `cacheSize`
+   * option.
+   */
+  get cacheStats(): URLPatternListCacheStats {
+    const cache = this.#cache;
+    return {
+      capacity: cache?.capacity ?? 0,
+      size: cache?.size ?? 0,
+      hits: cache?.hits ?? 0,
+      misses: cache?.misses ?? 0,
+    };
   }
 
   /**
-   * Add a URL pattern to the collection.
+   * Match a URL against the URLPatterns, yielding every match in the order
+   * the patterns were added.
+   *
+   * Each step resumes the prefix tree search after the previous match, so
+   * matches are found lazily and iteration can be stopped early. Each search
+   * skips the subtrees whose patterns all come before the previous match, so
+   * it only walks the parts of the tree that can still match.
+   *
+   * @param url - The URL or `URLPatternInit` to match
+   * @param baseUrl - Optional base URL for relative path resolution
    */
-  addPattern(pattern: URLPattern, value: T) {
-    const parts = parseFullURL(pattern);
-    const item: URLPatternListItem<T> = {
-      sequence: this.#sequenceCounter++,
-      pattern,
-      value,
-    };
-    this.#addPatternToTree(this.#root, parts, 0, item);
+  *matchAll(
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): Generator<URLPatternListMatch<T>, void, undefined> {
+    this.#updateSequences();
+    yield* this.#findMatches(this.#createMatchContext(url, baseUrl));
   }
 
   /**
-   * Recursively add a pattern to the tree, creating nodes as needed.
+   * Match a pathname against the URLPatterns, returning the first match
+   * found and its associated value.
+   *
+   * This is the same as `match({pathname})`, but is faster for the common
+   * case of routing on the path alone: pathnames that are already canonical,
+   * which most are, are matched without running the URL parser. Other
+   * pathnames, like ones with spaces or `..` segments, are canonicalized the
+   * same way `URLPattern` does.
+   *
+   * Patterns that constrain other URL components, like `https://*` or
+   * `?q=*`, don't match, as the pathname is matched without them.
+   *
+   * With the `cacheSize` option, matches are cached like `match()` caches
+   * them.
+   *
+   * @param pathname - The pathname to match, like `/users/1`
    */
-  #addPatternToTree(
-    currentNode: PrefixTreeNode<T>,
-    parts: Array<Part>,
-    componentIndex: number,
-    item: URLPatternListItem<T>,
-  ): void {
-    if (item.sequence < currentNode.minSequence) {
-      currentNode.minSequence = item.sequence;
+  matchPathname(pathname: string): URLPatternListMatch<T> | null {
+    this.#updateSequences();
+    const cache = this.#cache;
+    if (cache === undefined) {
+      return this.#matchPathname(pathname);
     }
-
-    // If we've consumed all parts, this pattern ends at this node
-    if (componentIndex >= parts.length) {
-      currentNode.patterns.push(item);
-      return;
+    // URL keys can't start with a newline, so pathnames can't be mistaken
+    // for them
+    const key = `\n${pathname}`;
+    let match = cache.get(key);
+    if (match === undefined) {
+      match = this.#matchPathname(pathname);
+      cache.set(key, match);
     }
+    return match;
+  }
 
-    const part = parts[componentIndex];
-    const childNode = this.#getOrCreateChildNode(currentNode, part);
-
-    // Continue building the tree with the next part
-    this.#addPatternToTree(childNode, parts, componentIndex + 1, item);
+  #matchPathname(pathname: string): URLPatternListMatch<T> | null {
+    return this.#findMatch(this.#createPathnameMatchContext(pathname));
   }
 
   /**
-   * Get or create a child node for the given part. Returns an existing node
-   * if it matches the part, or creates a new node if not found.
+   * Compact the prefix tree by merging chains of fixed nodes that don't
+   * branch into single nodes.
+   *
+   * The parser splits fixed text at each `/`, so a pattern like
+   * `/v1/internal/admin/reports` is stored as a chain of four fixed nodes.
+   * When nothing branches from the chain, it's merged into a single node that
+   * checks `/v1/internal/admin/reports` at once, which reduces the number of
+   * nodes and the work done to match. Patterns added later that diverge
+   * partway through a merged node split it again.
    */
-  #getOrCreateChildNode(
-    parent: PrefixTreeNode<T>,
-    part: Part,
-  ): PrefixTreeNode<T> {
-    for (const child of parent.children) {
-      if (child.matchesPart(part)) {
-        return child;
-      }
-    }
+  optimize(): void {
+    this.#mergeFixedChains(this.#root);
+    this.#matcher = undefined;
+  }
 
-    let node: PrefixTreeNode<T>;
+  /**
+   * Compile the prefix tree into a single generated JavaScript function that
+   * is used for matching from now on.
+   *
+   * The generated code inlines checks for fixed text, and switches over the
+   * fixed text of sibling nodes, instead of calling the `match()` method of
+   * each node. Matches are the same as without compiling.
+   *
+   * Compiling takes time and uses `new Function()`, so it's only worthwhile
+   * for large lists that are matched many times, and isn't possible under a
+   * Content Security Policy that disallows `unsafe-eval`. After patterns are
+   * added or removed, the tree is compiled again on the next match.
+   */
+  compile(): void {
+    this.#compiled = true;
+    this.#updateSequences();
+    this.#matcher = compileTree(this.#root);
+  }
 
-    switch (part.type) {
-      case PartType.Fixed:
-        node = new FixedPrefixTreeNode<T>(
-          part.urlComponentType,
-          part.value,
-          part.modifier,
-        );
-        break;
-      case PartType.SegmentWildcard:
-        node = new WildcardPrefixTreeNode<T>(
-          part.urlComponentType,
-          part.modifier,
-          part.prefix,
-          part.suffix,
-        );
-        break;
-      case PartType.FullWildcard:
-        node = new FullWildcardPrefixTreeNode<T>(
-          part.urlComponentType,
-          part.modifier,
-        );
-        break;
-      case PartType.Regex:
-        node = new RegexPrefixTreeNode<T>(part.urlComponentType, part.value);
-        break;
-      default:
-        throw new Error(`Unsupported part type: ${part.type}`);
+  /**
+   * Find the first pattern that matches in the prefix tree, using the
+   * compiled matcher if `compile()` was called.
+   */
+  #matchTree(context: MatchContext): URLPatternListItem<T> | null {
+    if (this.#root.maxSequence <= context.after) {
+      return null;
     }
-
-    parent.children.push(node);
-    return node;
+    if (!this.#compiled) {
+      return this.#root.match(context, 0, 0);
+    }
+    this.#matcher ??= compileTree(this.#root);
+    return this.#matcher(context) as URLPatternListItem<T> | null;
   }
 
   /**
-   * Match a URL against the URLPatterns, returning the first match found and
-   * its associated value.
+   * Match a URL like `match()`, and return a trace of how the prefix tree was
+   * walked to find the match. This is useful to debug why a URL matches an
+   * unexpected pattern, or none at all.
    *
-   * @param url - The URL to match
+   * The trace records every node visited with the positions it consumed in
+   * each URL component, the nodes pruned because they can't lead to a better
+   * match, and the patterns tested with `pattern.test()`.
+   *
+   * Only the first walk of the tree is traced. Mounted lists, and the
+   * patterns tried after a pattern whose params are rejected, aren't in the
+   * trace, but are in its `match`.
+   *
+   * @param url - The URL or `URLPatternInit` to match
    * @param baseUrl - Optional base URL for relative path resolution
    */
-  match(url: string | URL, baseUrl?: string): URLPatternListMatch<T> | null {
-    url = typeof url === 'string' ? new URL(url, baseUrl) : url;
+  explain(
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): URLPatternListTrace<T> {
+    this.#updateSequences();
+    const root = traceNode(this.#root, 0, false);
+    const context: MatchContext = {
+      ...this.#createMatchContext(url, baseUrl),
+      trace: {current: root},
+    };
+    root.match = this.#root.match(context, 0, 0);
+    return {
+      components: context.urlComponents.map(({type, value}) => ({
+        component: urlComponentNames[type],
+        value,
+      })),
+      root: root as URLPatternListTraceNode<T>,
+      match: this.#findMatch(this.#createMatchContext(url, baseUrl)),
+    };
+  }
+
+  /**
+   * Split a URL into the components used to walk the prefix tree.
+   */
+  #createMatchContext(
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): MatchContext {
+    if (typeof url !== 'string' && !(url instanceof URL)) {
+      return this.#createInitMatchContext(url, baseUrl);
+    }
+    const parsed = typeof url === 'string' ? new URL(url, baseUrl) : url;
 
     const components: Array<URLComponent> = [];
-    if (url.protocol !== '') {
+    if (parsed.protocol !== '') {
       components.push({
-        value: url.protocol.slice(0, -1),
+        value: parsed.protocol.slice(0, -1),
         type: URLComponentType.Protocol,
       });
     }
-    if (url.username !== '') {
+    if (parsed.username !== '') {
       components.push({
-        value: url.username,
+        value: parsed.username,
         type: URLComponentType.Username,
       });
     }
-    if (url.password !== '') {
+    if (parsed.password !== '') {
       components.push({
-        value: url.password,
+        value: parsed.password,
         type: URLComponentType.Password,
       });
     }
-    if (url.hostname !== '') {
+    if (parsed.hostname !== '') {
       components.push({
-        value: url.hostname,
+        value: parsed.hostname,
         type: URLComponentType.Hostname,
       });
     }
-    if (url.port !== '') {
-      components.push({value: url.port, type: URLComponentType.Port});
+    if (parsed.port !== '') {
+      components.push({value: parsed.port, type: URLComponentType.Port});
     }
-    if (url.pathname !== '') {
+    if (parsed.pathname !== '') {
       components.push({
-        value: url.pathname,
+        value: parsed.pathname,
         type: URLComponentType.Pathname,
       });
     }
-    if (url.search !== '') {
+    if (parsed.search !== '') {
       components.push({
-        value: url.search.slice(1),
+        value: parsed.search.slice(1),
         type: URLComponentType.Search,
       });
     }
-    if (url.hash !== '') {
+    if (parsed.hash !== '') {
       components.push({
-        value: url.hash.slice(1),
+        value: parsed.hash.slice(1),
         type: URLComponentType.Hash,
       });
     }
 
-    const match = this.#root.match(components, 0, 0, url.toString(), baseUrl);
-    if (match !== null) {
-      const result = baseUrl
-        ? match.pattern.exec(url.toString(), baseUrl)
-        : match.pattern.exec(url.toString());
+    const context: MatchContext = {
+      urlComponents: components,
+      input: parsed.toString(),
+      baseUrl,
+      after: -1,
+    };
+    return this.#captureGroups
+      ? {...context, capture: new CaptureRecorder()}
+      : context;
+  }
 
-      if (result !== null) {
-        return {
-          result,
-          value: match.value,
-        };
+  /**
+   * Get the context to match a pathname, as the `{pathname}` init.
+   *
+   * A canonical pathname is the only component the init has, so the context
+   * is built without processing the init.
+   */
+  #createPathnameMatchContext(pathname: string): MatchContext {
+    if (!isCanonicalPathname(pathname)) {
+      return this.#createInitMatchContext({pathname}, undefined);
+    }
+    const context: MatchContext = {
+      urlComponents: [{value: pathname, type: URLComponentType.Pathname}],
+      input: {pathname},
+      baseUrl: undefined,
+      after: -1,
+    };
+    return this.#captureGroups
+      ? {...context, capture: new CaptureRecorder()}
+      : context;
+  }
+
+  /**
+   * Get the components of a URLPatternInit used to walk the prefix tree.
+   *
+   * The init is processed like `URLPattern.exec()` does: components are
+   * canonicalized, and resolved against its `baseURL`. Rather than repeating
+   * those rules, a pattern that matches any URL is run on the init, and each
+   * component is read from its result.
+   */
+  #createInitMatchContext(
+    init: URLPatternInit,
+    baseUrl: string | undefined,
+  ): MatchContext {
+    if (baseUrl !== undefined) {
+      throw new TypeError(
+        'A base URL must be given as the baseURL property of a URLPatternInit',
+      );
+    }
+    anyURLPattern ??= new URLPattern();
+    const processed = anyURLPattern.exec(init);
+
+    // Inits that can't be processed have no components, and fail the test of
+    // any pattern
+    const components: Array<URLComponent> = [];
+    if (processed !== null) {
+      for (const [type, name] of urlComponentNames.entries()) {
+        const value = processed[name].input;
+        if (value !== '') {
+          components.push({value, type: type as URLComponentType});
+        }
       }
     }
-    return null;
+    // The tree is walked from the first component, so there must be one
+    if (components.length === 0) {
+      components.push({value: '', type: URLComponentType.Pathname});
+    }
+
+    const context: MatchContext = {
+      urlComponents: components,
+      input: init,
+      baseUrl: undefined,
+      after: -1,
+      ...(processed === null ? {} : {inputs: processed.inputs}),
+    };
+    return this.#captureGroups
+      ? {...context, capture: new CaptureRecorder()}
+      : context;
+  }
+
+  /**
+   * Get the match for an item found by walking the prefix tree, with its
+   * params decoded if the item has a schema. Returns null if a decoder
+   * rejects a group.
+   */
+  #getMatch(
+    item: URLPatternListItem<T>,
+    context: MatchContext,
+  ): URLPatternListMatch<T> | null {
+    const result = this.#getResult(item, context);
+    if (result === null) {
+      return null;
+    }
+    const params =
+      item.params === undefined
+        ? getNamedGroups(result)
+        : decodeParams(result, item.params);
+    return params === undefined ? null : {result, value: item.value, params};
+  }
+
+  /**
+   * Get the result for a match, from the text captured while walking the
+   * prefix tree if possible, or by running the matched pattern.
+   */
+  #getResult(
+    item: URLPatternListItem<T>,
+    context: MatchContext,
+  ): URLPatternResult | null {
+    const result = this.#getCapturedResult(item, context);
+    if (result === null) {
+      return this.#exec(item, context);
+    }
+    if (this.#verifyCaptureGroups) {
+      const execResult = this.#exec(item, context);
+      if (execResult === null || !isSameResult(result, execResult)) {
+        throw new Error(
+          `Captured groups differ from pattern.exec() for ${JSON.stringify(context.input)}`,
+        );
+      }
+    }
+    return result;
+  }
+
+  #getCapturedResult(
+    item: URLPatternListItem<T>,
+    context: MatchContext,
+  ): URLPatternResult | null {
+    const {capture, urlComponents, input, baseUrl} = context;
+    if (capture === undefined) {
+      return null;
+    }
+    const parts = this.#getParts(item);
+    let capturable = this.#capturable.get(item);
+    if (capturable === undefined) {
+      capturable = canCaptureGroups(parts);
+      this.#capturable.set(item, capturable);
+    }
+    const spans = capturable
+      ? capture.getSpans(item, urlComponents)
+      : undefined;
+    if (spans === undefined) {
+      return null;
+    }
+    const componentValues = urlComponentNames.map(() => '');
+    for (const {type, value} of urlComponents) {
+      componentValues[type] = value;
+    }
+    return buildCapturedResult(
+      item.pattern,
+      parts,
+      spans,
+      componentValues,
+      context.inputs ?? (baseUrl ? [input, baseUrl] : [input]),
+    );
+  }
+
+  /**
+   * Run the matched pattern to get the URLPatternResult for a match.
+   */
+  #exec(
+    item: URLPatternListItem<T>,
+    context: MatchContext,
+  ): URLPatternResult | null {
+    const {input, baseUrl} = context;
+    return baseUrl
+      ? item.pattern.exec(input, baseUrl)
+      : item.pattern.exec(input);
+  }
+
+  /**
+   * Serialize the list, including its prefix tree, to a JSON-compatible
+   * object that can be restored with `URLPatternList.fromJSON()`.
+   *
+   * @param codec - Converts values to a JSON-compatible form. If omitted,
+   *     values are stored as-is.
+   */
+  serialize(codec?: URLPatternListCodec<T>): SerializedURLPatternList {
+    this.#updateSequences();
+    const serialized: SerializedURLPatternList = {
+      version: 1,
+      sequenceCounter: this.#sequenceCounter,
+      root: serializeNode(this.#root, codec),
+    };
+    if (this.#order !== 'insertion') {
+      serialized.order = this.#order;
+    }
+    if (this.#mounts.length > 0) {
+      serialized.mounts = this.#mounts.map((mount) => {
+        const serializedMount: SerializedURLPatternListMount = {
+          sequence: mount.sequence,
+          pattern: getPatternInit(mount.pattern),
+          list: mount.list.serialize(codec),
+        };
+        if (mount.ignoreCase) {
+          serializedMount.ignoreCase = true;
+        }
+        return serializedMount;
+      });
+    }
+    return serialized;
+  }
+
+  /**
+   * Serialize the list with values stored as-is. Called by `JSON.stringify()`.
+   */
+  toJSON(): SerializedURLPatternList {
+    return this.serialize();
+  }
+
+  /**
+   * Restore a list from the output of `serialize()` or `toJSON()`.
+   *
+   * The prefix tree is rebuilt directly from the serialized nodes, so patterns
+   * are not parsed again.
+   *
+   * Only the `order` of the list is serialized, as the tree depends on it.
+   * Other options, like `cacheSize` and `captureGroups`, are passed as
+   * `options`, and also apply to mounted lists.
+   *
+   * @param data - The serialized list
+   * @param codec - Converts serialized values back. Must match the codec that
+   *     was passed to `serialize()`.
+   * @param options - Options for the list. The `order` must be the serialized
+   *     order, if it's given.
+   */
+  static fromJSON<T>(
+    data: SerializedURLPatternList,
+    codec?: URLPatternListCodec<T>,
+    options: URLPatternListOptions = {},
+  ): URLPatternList<T> {
+    if (data.version !== 1) {
+      throw new TypeError(
+        `Unsupported serialized URLPatternList version: ${data.version}`,
+      );
+    }
+    const root = deserializeNode<T>(data.root, codec);
+    if (!(root instanceof RootPrefixTreeNode)) {
+      throw new TypeError(`Expected a root node, got '${data.root.type}'`);
+    }
+    const {order = data.order ?? 'insertion', ...otherOptions} = options;
+    if (order !== (data.order ?? 'insertion')) {
+      throw new TypeError(
+        `The order option doesn't match the serialized order: '${order}'`,
+      );
+    }
+    const list = new URLPatternList<T>({...otherOptions, order});
+    list.#root = root;
+    list.#sequenceCounter = data.sequenceCounter;
+    list.#size = list.#collectItems(root, []).length;
+    for (const mount of data.mounts ?? []) {
+      const ignoreCase = mount.ignoreCase ?? false;
+      list.#addMount(
+        new URLPattern(mount.pattern, {ignoreCase}),
+        ignoreCase,
+        URLPatternList.fromJSON(mount.list, codec, otherOptions),
+        mount.sequence,
+      );
+    }
+    return list;
   }
 
   /**
@@ -1229,3 +3729,461 @@ export class URLPatternList<T> {
     return this.#root;
   }
 }
+
+/**
+ * Compile a prefix tree into a matcher function that is equivalent to
+ * `root.match(context, 0, 0)`.
+ *
+ * Each node gets a generated function that does the work of
+ * `tryPatternsAndChildren()` for it. Fixed children without modifiers are
+ * matched inline, grouped into a `switch` over the text at the current
+ * position for each length. Other children are matched with their `match()`
+ * method, which continues into the generated code through
+ * `MatchContext.resume`.
+ *
+ * The code bakes in the shape of the tree and the minSequence and
+ * maxSequence of each node, so it must be compiled again whenever either
+ * changes. The state of a call is kept in variables shared by the node
+ * functions, which are restored when the call returns, so that a re-entrant
+ * call doesn't clobber the call it's made from.
+ */
+const compileTree = <T>(root: PrefixTreeNode<T>): CompiledMatcher => {
+  const nodes: Array<PrefixTreeNode<T>> = [];
+  const ids = new Map<PrefixTreeNode<T>, number>();
+  const collect = (node: PrefixTreeNode<T>) => {
+    ids.set(node, nodes.length);
+    nodes.push(node);
+    node.children.forEach(collect);
+  };
+  collect(root);
+
+  const lines = ['let comps, n, input, baseUrl, after, context, capture;'];
+  for (const [id, node] of nodes.entries()) {
+    if (node.patterns.length > 0) {
+      lines.push(`const patterns${id} = nodes[${id}].patterns;`);
+    }
+    lines.push(compileNode(node, id, ids));
+  }
+  lines.push(
+    `const fns = [${nodes.map((_, id) => `t${id}`).join(', ')}];`,
+    'const resume = (node, ci, p) => fns[ids.get(node)](ci, p);',
+    'return (c) => {',
+    '  const saved = [comps, n, input, baseUrl, after, context, capture];',
+    '  comps = c.urlComponents;',
+    '  n = comps.length;',
+    '  input = c.input;',
+    '  baseUrl = c.baseUrl;',
+    '  after = c.after;',
+    '  context = {...c, resume};',
+    '  capture = c.capture;',
+    '  try {',
+    '    return t0(0, 0);',
+    '  } finally {',
+    '    [comps, n, input, baseUrl, after, context, capture] = saved;',
+    '  }',
+    '};',
+  );
+  return new Function('nodes', 'ids', 'getComponentValue', lines.join('\n'))(
+    nodes,
+    ids,
+    getComponentValue,
+  );
+};
+
+/**
+ * Generate the function for one node of a compiled tree. See
+ * `PrefixTreeNode.tryPatternsAndChildren()` for the logic this mirrors.
+ */
+const compileNode = <T>(
+  node: PrefixTreeNode<T>,
+  id: number,
+  ids: Map<PrefixTreeNode<T>, number>,
+): string => {
+  const childTypes = [
+    ...new Set(node.children.map((child) => child.urlComponentType)),
+  ];
+  const hasChildrenWithSameComponent =
+    childTypes.map((type) => `t === ${type}`).join(' || ') || 'false';
+
+  const tryChild = (child: PrefixTreeNode<T>, call: string) =>
+    `if (after < ${child.maxSequence} && (best === null || best.sequence >= ${child.minSequence})) {
+      r = ${call};
+      if (r !== null && (best === null || r.sequence < best.sequence)) {
+        best = r;
+      }
+    }`;
+
+  let code = `function t${id}(ci, p) {
+  const {value: v, type: t} = comps[ci];
+  let best = null, r, aci = ci, ap = p;
+  if (p >= v.length && !(${hasChildrenWithSameComponent})) {
+    aci = ci + 1;
+    ap = 0;
+  }
+`;
+
+  for (const type of childTypes) {
+    // Fixed children are grouped by case sensitivity and length, so that
+    // each group is a single switch over the text at the current position
+    const fixedGroups = new Map<string, Array<FixedPrefixTreeNode<T>>>();
+    const otherChildren: Array<PrefixTreeNode<T>> = [];
+    for (const child of node.children) {
+      if (child.urlComponentType !== type) {
+        continue;
+      }
+      if (
+        child instanceof FixedPrefixTreeNode &&
+        child.modifier === Modifier.None
+      ) {
+        const key = `${child.ignoreCase}:${child.value.length}`;
+        let group = fixedGroups.get(key);
+        if (group === undefined) {
+          fixedGroups.set(key, (group = []));
+        }
+        group.push(child);
+      } else {
+        otherChildren.push(child);
+      }
+    }
+
+    code += `  {
+    let nci = aci, np = ap;
+    while (nci < n && comps[nci].type < ${type}) {
+      nci++;
+      np = 0;
+    }
+    if (nci < n && comps[nci].type === ${type}) {
+`;
+    for (const group of fixedGroups.values()) {
+      const {ignoreCase, value} = group[0];
+      const componentValue = ignoreCase
+        ? 'getComponentValue(comps[nci], true)'
+        : 'comps[nci].value';
+      code += `      switch (${componentValue}.slice(np, np + ${value.length})) {
+`;
+      for (const child of group) {
+        code += `        case ${JSON.stringify(child.value)}:
+          ${tryChild(child, `t${ids.get(child)}(nci, np + ${value.length})`)}
+          break;
+`;
+      }
+      code += `      }
+`;
+    }
+    for (const child of otherChildren) {
+      const node = `nodes[${ids.get(child)}]`;
+      const call =
+        child instanceof FixedPrefixTreeNode
+          ? `${node}.match(context, nci, np)`
+          : `(capture === undefined ? ${node}.match(context, nci, np) : capture.match(${node}, context, nci, np))`;
+      code += `      ${tryChild(child, call)}
+`;
+    }
+    code += `    }
+  }
+`;
+  }
+
+  if (node.patterns.length > 0) {
+    code += `  if (p >= v.length) {
+    for (const item of patterns${id}) {
+      if (item.sequence <= after || (best !== null && item.sequence > best.sequence)) {
+        continue;
+      }
+      if (baseUrl ? item.pattern.test(input, baseUrl) : item.pattern.test(input)) {
+        capture?.record(item);
+        if (best === null || item.sequence < best.sequence) {
+          best = item;
+        }
+      }
+    }
+  }
+`;
+  }
+
+  return (
+    code +
+    `  return best;
+}`
+  );
+};
+
+const modifierSuffixes: Record<Modifier, string> = {
+  [Modifier.None]: '',
+  [Modifier.Optional]: '?',
+  [Modifier.ZeroOrMore]: '*',
+  [Modifier.OneOrMore]: '+',
+};
+
+/**
+ * Describe a prefix tree node for a trace, in pattern syntax.
+ */
+const describeNode = <T>(
+  node: PrefixTreeNode<T>,
+): {type: SerializedPrefixTreeNode['type']; label: string} => {
+  if (node instanceof FixedPrefixTreeNode) {
+    const label =
+      node.modifier === Modifier.None
+        ? node.value
+        : `{${node.value}}${modifierSuffixes[node.modifier]}`;
+    return {type: 'fixed', label};
+  }
+  if (node instanceof WildcardPrefixTreeNode) {
+    const modifier = modifierSuffixes[node.modifier as Modifier];
+    const label =
+      node.suffix === ''
+        ? `${node.prefix}:param${modifier}`
+        : `{${node.prefix}:param${node.suffix}}${modifier}`;
+    return {type: 'wildcard', label};
+  }
+  if (node instanceof FullWildcardPrefixTreeNode) {
+    return {
+      type: 'full-wildcard',
+      label: `*${modifierSuffixes[node.modifier as Modifier]}`,
+    };
+  }
+  if (node instanceof RegexPrefixTreeNode) {
+    return {type: 'regex', label: `(${node.regexString})`};
+  }
+  return {type: 'root', label: ''};
+};
+
+/**
+ * Create the trace of a node that starts matching at `position`.
+ */
+const traceNode = <T>(
+  node: PrefixTreeNode<T>,
+  position: number,
+  pruned: boolean,
+): URLPatternListTraceNode<T> => ({
+  ...describeNode(node),
+  component: urlComponentNames[node.urlComponentType],
+  position,
+  pruned,
+  steps: [],
+  match: null,
+});
+
+/**
+ * Match a node while recording its trace as a child of `step`.
+ */
+const traceMatch = <T>(
+  node: PrefixTreeNode<T>,
+  context: MatchContext,
+  componentIndex: number,
+  position: number,
+  step: URLPatternListTraceStep<unknown>,
+): URLPatternListItem<T> | null => {
+  const trace = context.trace!;
+  const parent = trace.current;
+  const current = traceNode(node, position, false);
+  step.children.push(current);
+  trace.current = current;
+  try {
+    current.match = node.match(context, componentIndex, position);
+  } finally {
+    trace.current = parent;
+  }
+  return current.match as URLPatternListItem<T> | null;
+};
+
+/**
+ * Serialize a prefix tree node and its descendants.
+ */
+const serializeNode = <T>(
+  node: PrefixTreeNode<T>,
+  codec: URLPatternListCodec<T> | undefined,
+): SerializedPrefixTreeNode => {
+  const serialized: SerializedPrefixTreeNode = {
+    type: 'root',
+    urlComponentType: node.urlComponentType,
+    minSequence: node.minSequence,
+    patterns: node.patterns.map((item) => {
+      const serializedItem: SerializedURLPatternListItem = {
+        sequence: item.sequence,
+        pattern: getPatternInit(item.pattern),
+        value: codec === undefined ? item.value : codec.encode(item.value),
+      };
+      if (item.ignoreCase) {
+        serializedItem.ignoreCase = true;
+      }
+      if (item.params !== undefined) {
+        if (codec?.encodeParams === undefined) {
+          throw new TypeError(
+            'Serializing patterns with params requires a codec with encodeParams()',
+          );
+        }
+        serializedItem.params = codec.encodeParams(item.params);
+      }
+      return serializedItem;
+    }),
+    children: node.children.map((child) => serializeNode(child, codec)),
+  };
+
+  if (node instanceof FixedPrefixTreeNode) {
+    serialized.type = 'fixed';
+    serialized.value = node.value;
+    serialized.modifier = node.modifier;
+    if (node.ignoreCase) {
+      serialized.ignoreCase = true;
+    }
+  } else if (node instanceof WildcardPrefixTreeNode) {
+    serialized.type = 'wildcard';
+    serialized.modifier = node.modifier as Modifier;
+    serialized.prefix = node.prefix;
+    serialized.suffix = node.suffix;
+    if (node.ignoreCase) {
+      serialized.ignoreCase = true;
+    }
+  } else if (node instanceof FullWildcardPrefixTreeNode) {
+    serialized.type = 'full-wildcard';
+    serialized.modifier = node.modifier as Modifier;
+  } else if (node instanceof RegexPrefixTreeNode) {
+    serialized.type = 'regex';
+    serialized.value = node.regexString;
+    if (node.ignoreCase) {
+      serialized.ignoreCase = true;
+    }
+  } else if (!(node instanceof RootPrefixTreeNode)) {
+    throw new Error(`Unsupported node type: ${node.constructor.name}`);
+  }
+
+  return serialized;
+};
+
+/**
+ * Copy a prefix tree node and its descendants, copying each item with
+ * `cloneItem`.
+ */
+const cloneNode = <T>(
+  node: PrefixTreeNode<T>,
+  cloneItem: (item: URLPatternListItem<T>) => URLPatternListItem<T>,
+): PrefixTreeNode<T> => {
+  let copy: PrefixTreeNode<T>;
+  if (node instanceof RootPrefixTreeNode) {
+    copy = new RootPrefixTreeNode<T>();
+  } else if (node instanceof FixedPrefixTreeNode) {
+    copy = new FixedPrefixTreeNode<T>(
+      node.urlComponentType,
+      node.value,
+      node.modifier,
+      node.ignoreCase,
+    );
+  } else if (node instanceof WildcardPrefixTreeNode) {
+    copy = new WildcardPrefixTreeNode<T>(
+      node.urlComponentType,
+      node.modifier,
+      node.prefix,
+      node.suffix,
+      node.ignoreCase,
+    );
+  } else if (node instanceof FullWildcardPrefixTreeNode) {
+    copy = new FullWildcardPrefixTreeNode<T>(
+      node.urlComponentType,
+      node.modifier,
+    );
+  } else if (node instanceof RegexPrefixTreeNode) {
+    copy = new RegexPrefixTreeNode<T>(
+      node.urlComponentType,
+      node.regexString,
+      node.ignoreCase,
+    );
+  } else {
+    throw new Error(`Unsupported node type: ${node.constructor.name}`);
+  }
+
+  copy.minSequence = node.minSequence;
+  copy.maxSequence = node.maxSequence;
+  copy.patterns.push(...node.patterns.map(cloneItem));
+  for (const child of node.children) {
+    copy.addChild(cloneNode(child, cloneItem));
+  }
+  return copy;
+};
+
+/**
+ * Get the components of a pattern as an init that it can be rebuilt from.
+ */
+const getPatternInit = (pattern: URLPattern): URLPatternInit => {
+  const init: URLPatternInit = {};
+  for (const component of urlComponentNames) {
+    init[component] = pattern[component];
+  }
+  return init;
+};
+
+/**
+ * Rebuild a prefix tree node and its descendants from serialized data.
+ */
+const deserializeNode = <T>(
+  data: SerializedPrefixTreeNode,
+  codec: URLPatternListCodec<T> | undefined,
+): PrefixTreeNode<T> => {
+  let node: PrefixTreeNode<T>;
+
+  switch (data.type) {
+    case 'root':
+      node = new RootPrefixTreeNode<T>();
+      break;
+    case 'fixed':
+      node = new FixedPrefixTreeNode<T>(
+        data.urlComponentType,
+        data.value!,
+        data.modifier,
+        data.ignoreCase,
+      );
+      break;
+    case 'wildcard':
+      node = new WildcardPrefixTreeNode<T>(
+        data.urlComponentType,
+        data.modifier,
+        data.prefix,
+        data.suffix,
+        data.ignoreCase,
+      );
+      break;
+    case 'full-wildcard':
+      node = new FullWildcardPrefixTreeNode<T>(
+        data.urlComponentType,
+        data.modifier ?? Modifier.None,
+      );
+      break;
+    case 'regex':
+      node = new RegexPrefixTreeNode<T>(
+        data.urlComponentType,
+        data.value!,
+        data.ignoreCase,
+      );
+      break;
+    default:
+      throw new TypeError(`Unsupported node type: ${data.type}`);
+  }
+
+  for (const item of data.patterns) {
+    const ignoreCase = item.ignoreCase ?? false;
+    let params: URLPatternListParamsSchema | undefined;
+    if (item.params !== undefined) {
+      if (codec?.decodeParams === undefined) {
+        throw new TypeError(
+          'Restoring patterns with params requires a codec with decodeParams()',
+        );
+      }
+      params = codec.decodeParams(item.params);
+    }
+    node.patterns.push(
+      new PatternItem(item.sequence, {
+        pattern: new URLPattern(item.pattern, {ignoreCase}),
+        value:
+          codec === undefined ? (item.value as T) : codec.decode(item.value),
+        ignoreCase,
+        ...(params === undefined ? {} : {params}),
+      }),
+    );
+  }
+  for (const child of data.children) {
+    node.addChild(deserializeNode(child, codec));
+  }
+  // Only minSequence is serialized, so compute both from the patterns
+  node.updateSequences();
+  return node;
+};
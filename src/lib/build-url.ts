@@ -0,0 +1,162 @@
+import {
+  Modifier,
+  type Part,
+  PartType,
+  URLComponentType,
+  urlComponentNames,
+} from './parse-pattern.js';
+
+export interface BuildURLOptions {
+  /**
+   * Whether the pattern was constructed with the `ignoreCase` option, in
+   * which case parameters are checked against regexes case-insensitively.
+   */
+  ignoreCase?: boolean;
+}
+
+/**
+ * The regex that `:name` parts match in each URL component, from the
+ * URLPattern spec's segment wildcard regexp.
+ */
+const segmentWildcardRegex = (type: URLComponentType): string => {
+  switch (type) {
+    case URLComponentType.Hostname:
+      return '[^.]+?';
+    case URLComponentType.Pathname:
+      return '[^/]+?';
+    default:
+      return '[^]+?';
+  }
+};
+
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Build a URL from a pattern and values for its parameters.
+ *
+ * Every component constrained by the pattern is rendered. If the pattern
+ * doesn't constrain the hostname, the result is a path-absolute URL like
+ * `/users/42`, and a TypeError is thrown if the pattern constrains the
+ * protocol, username, password or port, which can't be rendered without a
+ * hostname. Optional parts without a value are left out, and other parts
+ * without a value throw a TypeError.
+ *
+ * Values are inserted as-is, so they should be percent-encoded like the
+ * groups in a `URLPatternResult`. Each value is checked against the regex of
+ * its part.
+ *
+ * @param pattern - The pattern to build a URL for
+ * @param parts - The parts of the pattern, parsed without `ignoreCase` so
+ *   that fixed text keeps its case
+ * @param params - Parameter values by group name. Unnamed groups use their
+ *   index, as in `URLPatternResult` groups.
+ */
+export const buildPatternURL = (
+  pattern: URLPattern,
+  parts: ReadonlyArray<Part>,
+  params: Readonly<Record<string, string | undefined>>,
+  options: BuildURLOptions = {},
+): string => {
+  const components: Array<string | undefined> = urlComponentNames.map((name) =>
+    pattern[name] === '*' ? undefined : '',
+  );
+  for (const part of parts) {
+    components[part.urlComponentType] += renderPart(
+      pattern,
+      part,
+      params,
+      options.ignoreCase ?? false,
+    );
+  }
+
+  const [protocol, username, password, hostname, port, pathname, search, hash] =
+    components;
+  if (hostname === undefined) {
+    for (const type of [
+      URLComponentType.Protocol,
+      URLComponentType.Username,
+      URLComponentType.Password,
+      URLComponentType.Port,
+    ]) {
+      const component = components[type];
+      if (component !== undefined && component !== '') {
+        const name = urlComponentNames[type];
+        throw new TypeError(
+          `Can't build a URL for ${name} pattern "${pattern[name]}" without a hostname`,
+        );
+      }
+    }
+  }
+  let url = '';
+  if (hostname !== undefined) {
+    if (protocol !== undefined) {
+      url += `${protocol}:`;
+    }
+    url += '//';
+    if (username) {
+      url += password ? `${username}:${password}@` : `${username}@`;
+    }
+    url += hostname;
+    if (port) {
+      url += `:${port}`;
+    }
+  }
+  url += pathname ?? '';
+  if (search) {
+    url += `?${search}`;
+  }
+  if (hash) {
+    url += `#${hash}`;
+  }
+  return url;
+};
+
+const renderPart = (
+  pattern: URLPattern,
+  part: Part,
+  params: Readonly<Record<string, string | undefined>>,
+  ignoreCase: boolean,
+): string => {
+  const optional =
+    part.modifier === Modifier.Optional ||
+    part.modifier === Modifier.ZeroOrMore;
+
+  if (part.type === PartType.Fixed) {
+    // Optional groups of fixed text, like `{/index.html}?`, are left out
+    return optional ? '' : part.value;
+  }
+
+  const name = String(part.name);
+  const componentName = urlComponentNames[part.urlComponentType];
+  const value = params[name];
+  if (value === undefined) {
+    if (optional) {
+      return '';
+    }
+    throw new TypeError(
+      `Missing parameter "${name}" for ${componentName} pattern "${pattern[componentName]}"`,
+    );
+  }
+
+  const regex =
+    part.type === PartType.Regex
+      ? part.value
+      : part.type === PartType.FullWildcard
+        ? '.*'
+        : segmentWildcardRegex(part.urlComponentType);
+  // Repeated parts match each repetition separated by the suffix and prefix,
+  // and their value is all of the repetitions joined
+  const source =
+    part.modifier === Modifier.OneOrMore ||
+    part.modifier === Modifier.ZeroOrMore
+      ? `^(?:${regex})(?:${escapeRegex(part.suffix + part.prefix)}(?:${regex}))*$`
+      : `^(?:${regex})$`;
+  if (!new RegExp(source, ignoreCase ? 'ui' : 'u').test(value)) {
+    throw new TypeError(
+      `Parameter "${name}" with value "${value}" doesn't match /${regex}/ in ${componentName} pattern "${pattern[componentName]}"`,
+    );
+  }
+
+  return part.prefix + value + part.suffix;
+};
@@ -0,0 +1,218 @@
+import {
+  Modifier,
+  type Part,
+  PartType,
+  toASCIILowerCase,
+  URLComponentType,
+  urlComponentNames,
+} from './parse-pattern.js';
+
+/**
+ * The text that a wildcard or regex part of a pattern consumed while the
+ * prefix tree was walked, including the part's prefix and suffix.
+ */
+export interface CapturedSpan {
+  urlComponentType: URLComponentType;
+  value: string;
+}
+
+/**
+ * Check whether the groups of a pattern can be taken from the text its parts
+ * consumed in the prefix tree.
+ *
+ * The prefix tree tries amounts of text for wildcards in a different order
+ * than the regex that `exec()` runs, so this is only the case when the groups
+ * can't be split up in more than one way. In each URL component, the fixed
+ * parts must be required, and every wildcard or regex part before the last
+ * one must be a `/:name` path segment that is followed by a `/`.
+ */
+export const canCaptureGroups = (parts: ReadonlyArray<Part>): boolean => {
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.type === PartType.Fixed) {
+      if (part.modifier !== Modifier.None) {
+        return false;
+      }
+      continue;
+    }
+    const rest = parts
+      .slice(i + 1)
+      .filter((next) => next.urlComponentType === part.urlComponentType);
+    if (rest.every((next) => next.type === PartType.Fixed)) {
+      continue;
+    }
+    const next = rest[0];
+    if (
+      part.type !== PartType.SegmentWildcard ||
+      part.urlComponentType !== URLComponentType.Pathname ||
+      part.modifier !== Modifier.None ||
+      part.prefix !== '/' ||
+      part.suffix !== '' ||
+      !(next.type === PartType.Fixed ? next.value : next.prefix).startsWith('/')
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Build the result that `pattern.exec()` would return from the text that each
+ * wildcard or regex part of the pattern consumed.
+ *
+ * The prefix tree doesn't check everything that the pattern does, so the
+ * spans are checked to be a valid way to split up each URL component between
+ * the parts. Returns null if they aren't, so that the caller can fall back to
+ * `exec()`.
+ *
+ * @param pattern - The pattern that matched
+ * @param parts - The parts of the pattern
+ * @param spans - The text consumed by each wildcard or regex part, in order
+ * @param componentValues - The value of each URL component of the matched
+ *   URL, indexed by `URLComponentType`, as they appear in `exec()` results
+ * @param inputs - The inputs passed to `exec()`
+ */
+export const buildCapturedResult = (
+  pattern: URLPattern,
+  parts: ReadonlyArray<Part>,
+  spans: ReadonlyArray<CapturedSpan>,
+  componentValues: ReadonlyArray<string>,
+  inputs: URLPatternResult['inputs'],
+): URLPatternResult | null => {
+  const groups: Array<Record<string, string | undefined>> =
+    urlComponentNames.map(() => ({}));
+  const consumed: Array<string | undefined> = urlComponentNames.map(
+    () => undefined,
+  );
+  let spanIndex = 0;
+  for (const part of parts) {
+    const type = part.urlComponentType;
+    if (part.type === PartType.Fixed) {
+      consumed[type] = (consumed[type] ?? '') + part.value;
+      continue;
+    }
+    const span = spans[spanIndex++];
+    if (span === undefined || span.urlComponentType !== type) {
+      return null;
+    }
+    const group = getGroupValue(part, span.value);
+    if (group === null) {
+      return null;
+    }
+    groups[type][String(part.name)] = group;
+    consumed[type] = (consumed[type] ?? '') + span.value;
+  }
+  if (spanIndex !== spans.length) {
+    return null;
+  }
+
+  // The parts of each component must have consumed all of it
+  const ignoreCase = parts.some((part) => part.ignoreCase === true);
+  for (let i = 0; i < urlComponentNames.length; i++) {
+    const value = consumed[i];
+    if (
+      value !== undefined &&
+      (ignoreCase
+        ? toASCIILowerCase(value) !== toASCIILowerCase(componentValues[i])
+        : value !== componentValues[i])
+    ) {
+      return null;
+    }
+  }
+
+  // Results of exec() have a null prototype in Node, so match that
+  const result = Object.assign(Object.create(null), {
+    inputs,
+  }) as Partial<URLPatternResult> & Pick<URLPatternResult, 'inputs'>;
+  for (let i = 0; i < urlComponentNames.length; i++) {
+    const name = urlComponentNames[i];
+    const input = componentValues[i];
+    result[name] = {
+      input,
+      // Components that the pattern doesn't constrain match as a single
+      // unnamed wildcard
+      groups: pattern[name] === '*' ? {'0': input} : groups[i],
+    };
+  }
+  return result as URLPatternResult;
+};
+
+/**
+ * Strip the prefix and suffix from the text a part consumed. Returns
+ * undefined for optional parts that consumed nothing, and null if the text
+ * doesn't have the prefix and suffix, or if a `:name` segment crosses into
+ * the next segment.
+ */
+const getGroupValue = (
+  part: Part,
+  value: string,
+): string | undefined | null => {
+  if (
+    value === '' &&
+    (part.modifier === Modifier.Optional ||
+      part.modifier === Modifier.ZeroOrMore)
+  ) {
+    return undefined;
+  }
+  const {prefix, suffix} = part;
+  if (
+    value.length < prefix.length + suffix.length ||
+    !value.startsWith(prefix) ||
+    !value.endsWith(suffix)
+  ) {
+    return null;
+  }
+  const group = value.slice(prefix.length, value.length - suffix.length);
+  const separator = segmentSeparators[part.urlComponentType];
+  if (
+    part.type === PartType.SegmentWildcard &&
+    part.modifier === Modifier.None &&
+    separator !== undefined &&
+    group.includes(separator)
+  ) {
+    return null;
+  }
+  return group;
+};
+
+/**
+ * The characters that `:name` segments can't contain in each URL component,
+ * from the URLPattern spec's segment wildcard regexp.
+ */
+const segmentSeparators: Partial<Record<URLComponentType, string>> = {
+  [URLComponentType.Hostname]: '.',
+  [URLComponentType.Pathname]: '/',
+};
+
+/**
+ * Check whether two results have the same inputs, and the same input and
+ * groups for each URL component.
+ */
+export const isSameResult = (
+  a: URLPatternResult,
+  b: URLPatternResult,
+): boolean =>
+  a.inputs.length === b.inputs.length &&
+  a.inputs.every((input, i) => isSameInput(input, b.inputs[i])) &&
+  urlComponentNames.every((name) => {
+    const aGroups = a[name].groups;
+    const bGroups = b[name].groups;
+    const keys = new Set([...Object.keys(aGroups), ...Object.keys(bGroups)]);
+    return (
+      a[name].input === b[name].input &&
+      [...keys].every((key) => aGroups[key] === bGroups[key])
+    );
+  });
+
+const isSameInput = (
+  a: string | URLPatternInit,
+  b: string | URLPatternInit | undefined,
+): boolean => {
+  if (typeof a === 'string' || typeof b !== 'object') {
+    return a === b;
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (key) => a[key as keyof URLPatternInit] === b[key as keyof URLPatternInit],
+  );
+};
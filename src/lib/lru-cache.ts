@@ -0,0 +1,75 @@
+/**
+ * A map with a maximum size that evicts the least recently used entry when
+ * it's full, and counts hits and misses.
+ *
+ * Entries are kept in a `Map` in order of use: reading an entry moves it to
+ * the end, so the first entry is the least recently used.
+ */
+export class LRUCache<K, V> {
+  readonly capacity: number;
+  readonly #entries = new Map<K, V>();
+  #hits = 0;
+  #misses = 0;
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new TypeError(
+        `Cache capacity must be a positive integer, got ${capacity}`,
+      );
+    }
+    this.capacity = capacity;
+  }
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  /**
+   * The number of `get()` calls that found an entry.
+   */
+  get hits(): number {
+    return this.#hits;
+  }
+
+  /**
+   * The number of `get()` calls that didn't find an entry.
+   */
+  get misses(): number {
+    return this.#misses;
+  }
+
+  /**
+   * Get an entry and mark it as the most recently used, or return undefined
+   * if there's none.
+   */
+  get(key: K): V | undefined {
+    if (!this.#entries.has(key)) {
+      this.#misses++;
+      return undefined;
+    }
+    const value = this.#entries.get(key) as V;
+    this.#entries.delete(key);
+    this.#entries.set(key, value);
+    this.#hits++;
+    return value;
+  }
+
+  /**
+   * Add or replace an entry as the most recently used, evicting the least
+   * recently used entry if the cache is full.
+   */
+  set(key: K, value: V): void {
+    this.#entries.delete(key);
+    if (this.#entries.size >= this.capacity) {
+      this.#entries.delete(this.#entries.keys().next().value as K);
+    }
+    this.#entries.set(key, value);
+  }
+
+  /**
+   * Remove every entry. Hit and miss counts are kept.
+   */
+  clear(): void {
+    this.#entries.clear();
+  }
+}
@@ -0,0 +1,68 @@
+import type {
+  URLPatternListParams,
+  URLPatternListParamsSchema,
+} from '../index.js';
+import {urlComponentNames} from './parse-pattern.js';
+
+/**
+ * Get the named groups of every URL component of a result, like
+ * `{tenant: 'acme', id: '1'}` for `https://:tenant.example.com/users/:id`.
+ *
+ * Unnamed groups, like `*` and `(\\d+)`, are left out, since their indexes
+ * repeat in each component.
+ */
+export const getNamedGroups = (
+  result: URLPatternResult,
+): URLPatternListParams => {
+  const params: URLPatternListParams = {};
+  for (const name of urlComponentNames) {
+    for (const [key, value] of Object.entries(result[name].groups)) {
+      if (!/^\d+$/.test(key)) {
+        params[key] = value;
+      }
+    }
+  }
+  return params;
+};
+
+/**
+ * Whether an error thrown by a decoder rejects the value it was given. These
+ * are the errors that built-in parsers like `BigInt()` and `JSON.parse()`
+ * throw for invalid input; other errors are bugs, and aren't swallowed.
+ */
+const isRejection = (error: unknown) =>
+  error instanceof TypeError ||
+  error instanceof RangeError ||
+  error instanceof SyntaxError ||
+  error instanceof URIError;
+
+/**
+ * Get the named groups of a result like `getNamedGroups()`, with the groups
+ * in a params schema decoded by their decoders.
+ *
+ * Groups that didn't match are left undefined, without calling their
+ * decoder. Returns undefined if a decoder throws a `TypeError`,
+ * `RangeError`, `SyntaxError` or `URIError`, which rejects the match. Other
+ * errors are rethrown.
+ */
+export const decodeParams = (
+  result: URLPatternResult,
+  schema: URLPatternListParamsSchema,
+): Record<string, unknown> | undefined => {
+  const params: Record<string, unknown> = getNamedGroups(result);
+  for (const [name, decode] of Object.entries(schema)) {
+    const value = params[name];
+    if (typeof value !== 'string') {
+      continue;
+    }
+    try {
+      params[name] = decode(value);
+    } catch (error) {
+      if (isRejection(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+  return params;
+};
@@ -27,6 +27,21 @@ export const URLComponentType = {
 export type URLComponentType =
   (typeof URLComponentType)[keyof typeof URLComponentType];
 
+/**
+ * The names of the URL components, indexed by URLComponentType.
+ */
+export const urlComponentNames = [
+  'protocol',
+  'username',
+  'password',
+  'hostname',
+  'port',
+  'pathname',
+  'search',
+  'hash',
+] as const;
+export type URLComponentName = (typeof urlComponentNames)[number];
+
 export interface Part {
   type: PartType;
   name: string | number | undefined;
@@ -35,6 +50,20 @@ export interface Part {
   suffix: string;
   modifier: Modifier;
   urlComponentType: URLComponentType;
+  /**
+   * Whether the part should be matched case-insensitively. Only set by
+   * parsing with the `ignoreCase` option, and only on parts whose matching
+   * depends on case. Fixed text in these parts is lowercased.
+   */
+  ignoreCase?: boolean;
+}
+
+export interface ParseOptions {
+  /**
+   * Parse the pattern for case-insensitive matching, as with the
+   * `ignoreCase` option of the URLPattern constructor.
+   */
+  ignoreCase?: boolean;
 }
 
 // See https://tc39.es/ecma262/#prod-IdentifierStart for why we need `$` and `_`
@@ -42,6 +71,15 @@ const identifierStart = /[$_\p{ID_Start}]/u;
 // https://tc39.es/ecma262/#prod-IdentifierPartChar doesn't include `_`?
 const identifierPart = /[$_\p{ID_Continue}]/u;
 const onlyASCII = /^[\x00-\x7F]*$/;
+const asciiUpperCase = /[A-Z]/g;
+const asciiLetter = /[a-zA-Z]/;
+
+/**
+ * Lowercase ASCII letters only. Unlike `toLowerCase()` this never changes the
+ * length of the string, so positions in folded and unfolded strings agree.
+ */
+export const toASCIILowerCase = (value: string): string =>
+  value.replace(asciiUpperCase, (c) => c.toLowerCase());
 
 /**
  * Note: this parser is not implemented exactly as specced in
@@ -505,49 +543,95 @@ class Parser {
  *
  * @param pattern - The pattern to parse (e.g., "/users/:id" or "https" or "*")
  * @param urlComponentType - The URL component this pattern represents
+ * @param options - Parsing options
  * @returns Array of Part objects representing each segment of the pattern
  */
 export const parse = (
   pattern: string,
   urlComponentType: URLComponentType = URLComponentType.Pathname,
+  options: ParseOptions = {},
 ): Array<Part> => {
   const parser = new Parser(pattern, urlComponentType);
-  return parser.parse();
+  const parts = parser.parse();
+  if (options.ignoreCase) {
+    for (const part of parts) {
+      foldPartCase(part);
+    }
+  }
+  return parts;
+};
+
+/**
+ * Lowercase the fixed text of a part and mark it as case-insensitive, if its
+ * matching depends on case.
+ */
+const foldPartCase = (part: Part): void => {
+  switch (part.type) {
+    case PartType.Fixed:
+      if (asciiLetter.test(part.value)) {
+        part.value = toASCIILowerCase(part.value);
+        part.ignoreCase = true;
+      }
+      break;
+    case PartType.SegmentWildcard:
+      if (asciiLetter.test(part.prefix) || asciiLetter.test(part.suffix)) {
+        part.prefix = toASCIILowerCase(part.prefix);
+        part.suffix = toASCIILowerCase(part.suffix);
+        part.ignoreCase = true;
+      }
+      break;
+    case PartType.Regex:
+      // The regex itself is matched with the `i` flag, so it's not folded.
+      part.prefix = toASCIILowerCase(part.prefix);
+      part.suffix = toASCIILowerCase(part.suffix);
+      part.ignoreCase = true;
+      break;
+    case PartType.FullWildcard:
+      // Full wildcards match anything regardless of case
+      break;
+  }
 };
 
 /**
  * Parse a full URLPattern into an array of Part objects covering all URL components.
  *
+ * URLPattern doesn't expose whether it was constructed with `ignoreCase`, so
+ * the option must be passed here to match.
+ *
  * @param pattern - The URLPattern to parse
+ * @param options - Parsing options
  * @returns Array of Part objects representing all components of the URL pattern
  */
-export const parseFullURL = (pattern: URLPattern): Array<Part> => {
+export const parseFullURL = (
+  pattern: URLPattern,
+  options: ParseOptions = {},
+): Array<Part> => {
   const parts: Array<Part> = [];
 
   // Parse each URL component in order, skipping wildcards
   if (pattern.protocol !== '*') {
-    parts.push(...parse(pattern.protocol, URLComponentType.Protocol));
+    parts.push(...parse(pattern.protocol, URLComponentType.Protocol, options));
   }
   if (pattern.username !== '*') {
-    parts.push(...parse(pattern.username, URLComponentType.Username));
+    parts.push(...parse(pattern.username, URLComponentType.Username, options));
   }
   if (pattern.password !== '*') {
-    parts.push(...parse(pattern.password, URLComponentType.Password));
+    parts.push(...parse(pattern.password, URLComponentType.Password, options));
   }
   if (pattern.hostname !== '*') {
-    parts.push(...parse(pattern.hostname, URLComponentType.Hostname));
+    parts.push(...parse(pattern.hostname, URLComponentType.Hostname, options));
   }
   if (pattern.port !== '*') {
-    parts.push(...parse(pattern.port, URLComponentType.Port));
+    parts.push(...parse(pattern.port, URLComponentType.Port, options));
   }
   if (pattern.pathname !== '*') {
-    parts.push(...parse(pattern.pathname, URLComponentType.Pathname));
+    parts.push(...parse(pattern.pathname, URLComponentType.Pathname, options));
   }
   if (pattern.search !== '*') {
-    parts.push(...parse(pattern.search, URLComponentType.Search));
+    parts.push(...parse(pattern.search, URLComponentType.Search, options));
   }
   if (pattern.hash !== '*') {
-    parts.push(...parse(pattern.hash, URLComponentType.Hash));
+    parts.push(...parse(pattern.hash, URLComponentType.Hash, options));
   }
 
   return parts;
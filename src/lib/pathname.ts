@@ -0,0 +1,23 @@
+/**
+ * Characters that the URL parser leaves as-is in the path of a special URL,
+ * like `http:` or `https:`. Everything else, like spaces, `?`, `#`, `\` and
+ * non-ASCII characters, is percent-encoded or changed.
+ */
+const pathCharacters = /^\/[-!$%&'()*+,./0-9:;=@A-Z[\]_a-z|~]*$/;
+
+/**
+ * A `.` or `..` path segment, which the URL parser removes. Percent-encoded
+ * dots count as dots.
+ */
+const dotSegment = /\/(?:\.|%2e){1,2}(?=\/|$)/i;
+
+/**
+ * Check whether a pathname is already canonical, so that URLPattern would
+ * match it as-is without the URL parser changing it.
+ *
+ * This is true for most paths, which can then be matched without parsing
+ * them. It's conservative: a false result only means that the pathname needs
+ * to be canonicalized by the URL parser.
+ */
+export const isCanonicalPathname = (pathname: string): boolean =>
+  pathCharacters.test(pathname) && !dotSegment.test(pathname);
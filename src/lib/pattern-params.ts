@@ -0,0 +1,309 @@
+import type {
+  URLPatternListParamDecoder,
+  URLPatternListParams,
+  URLPatternListParamsSchema,
+} from '../index.js';
+
+/*
+ * Types that infer the names of the groups of a pattern from its string, like
+ * `{id: string}` for `/users/:id`, by parsing the pattern with template
+ * literal types.
+ *
+ * This follows the grammar of `Parser` in `parse-pattern.ts`: `:name`
+ * groups with an optional `(regex)`, unnamed `(regex)` and `*` groups,
+ * `{...}` groups, `\` escapes, and the `?`, `*` and `+` modifiers. Groups
+ * with the `?` or `*` modifier, or inside a `{...}` group with one, are
+ * optional. Only named groups are inferred.
+ */
+
+type IdentifierStart =
+  | 'a'
+  | 'b'
+  | 'c'
+  | 'd'
+  | 'e'
+  | 'f'
+  | 'g'
+  | 'h'
+  | 'i'
+  | 'j'
+  | 'k'
+  | 'l'
+  | 'm'
+  | 'n'
+  | 'o'
+  | 'p'
+  | 'q'
+  | 'r'
+  | 's'
+  | 't'
+  | 'u'
+  | 'v'
+  | 'w'
+  | 'x'
+  | 'y'
+  | 'z'
+  | Uppercase<
+      | 'a'
+      | 'b'
+      | 'c'
+      | 'd'
+      | 'e'
+      | 'f'
+      | 'g'
+      | 'h'
+      | 'i'
+      | 'j'
+      | 'k'
+      | 'l'
+      | 'm'
+      | 'n'
+      | 'o'
+      | 'p'
+      | 'q'
+      | 'r'
+      | 's'
+      | 't'
+      | 'u'
+      | 'v'
+      | 'w'
+      | 'x'
+      | 'y'
+      | 'z'
+    >
+  | '_'
+  | '$';
+
+type IdentifierPart =
+  | IdentifierStart
+  | '0'
+  | '1'
+  | '2'
+  | '3'
+  | '4'
+  | '5'
+  | '6'
+  | '7'
+  | '8'
+  | '9';
+
+/**
+ * Split the identifier at the start of a string from the rest, as
+ * `[name, rest]`.
+ */
+type ReadName<
+  S extends string,
+  Name extends string = '',
+> = S extends `${infer C}${infer Rest}`
+  ? C extends (Name extends '' ? IdentifierStart : IdentifierPart)
+    ? ReadName<Rest, `${Name}${C}`>
+    : [Name, S]
+  : [Name, S];
+
+/**
+ * Skip the rest of a `(regex)` after its opening `(`, including nested
+ * parentheses and escaped characters.
+ */
+type SkipRegex<
+  S extends string,
+  Depth extends Array<unknown> = [],
+> = S extends `\\${infer _}${infer Rest}`
+  ? SkipRegex<Rest, Depth>
+  : S extends `(${infer Rest}`
+    ? SkipRegex<Rest, [...Depth, unknown]>
+    : S extends `)${infer Rest}`
+      ? Depth extends [unknown, ...infer Outer]
+        ? SkipRegex<Rest, Outer>
+        : Rest
+      : S extends `${infer _}${infer Rest}`
+        ? SkipRegex<Rest, Depth>
+        : S;
+
+/**
+ * Split the modifier at the start of a string from the rest, as
+ * `[optional, rest]`.
+ */
+type ReadModifier<S extends string> = S extends `${'?' | '*'}${infer Rest}`
+  ? [true, Rest]
+  : S extends `+${infer Rest}`
+    ? [false, Rest]
+    : [false, S];
+
+/**
+ * Collect the names of the required and optional groups of a pattern string,
+ * as `[required, optional]`.
+ */
+type ParseGroups<
+  S extends string,
+  InOptional extends boolean = false,
+  Required extends string = never,
+  Optional extends string = never,
+> = S extends `\\${infer _}${infer Rest}`
+  ? ParseGroups<Rest, InOptional, Required, Optional>
+  : S extends `:${infer AfterColon}`
+    ? ReadName<AfterColon> extends [
+        infer Name extends string,
+        infer AfterName extends string,
+      ]
+      ? ReadModifier<
+          AfterName extends `(${infer Regex}` ? SkipRegex<Regex> : AfterName
+        > extends [infer IsOptional, infer Rest extends string]
+        ? Name extends ''
+          ? ParseGroups<Rest, InOptional, Required, Optional>
+          : IsOptional | InOptional extends false
+            ? ParseGroups<Rest, InOptional, Required | Name, Optional>
+            : ParseGroups<Rest, InOptional, Required, Optional | Name>
+        : never
+      : never
+    : S extends `(${infer Regex}`
+      ? ParseGroups<
+          ReadModifier<SkipRegex<Regex>>[1],
+          InOptional,
+          Required,
+          Optional
+        >
+      : S extends `{${infer Body}}${infer Rest}`
+        ? ReadModifier<Rest> extends [
+            infer IsOptional extends boolean,
+            infer AfterGroup extends string,
+          ]
+          ? ParseGroups<Body, IsOptional> extends [
+              infer BodyRequired extends string,
+              infer BodyOptional extends string,
+            ]
+            ? ParseGroups<
+                AfterGroup,
+                InOptional,
+                Required | (InOptional extends true ? never : BodyRequired),
+                | Optional
+                | BodyOptional
+                | (InOptional extends true ? BodyRequired : never)
+              >
+            : never
+          : never
+        : S extends `${infer _}${infer Rest}`
+          ? ParseGroups<Rest, InOptional, Required, Optional>
+          : [Required, Optional];
+
+type Simplify<T> = {[K in keyof T]: T[K]} & {};
+
+type ToParams<Groups> = Groups extends [
+  infer Required extends string,
+  infer Optional extends string,
+]
+  ? Simplify<
+      {[K in Required]: string} & {
+        [K in Exclude<Optional, Required>]?: string | undefined;
+      }
+    >
+  : never;
+
+/**
+ * The named groups of a pattern string, like `{id: string}` for
+ * `/users/:id` and `{id?: string | undefined}` for `/users/:id?`.
+ *
+ * For a `string` that isn't a literal, this is `URLPatternListParams`.
+ */
+export type PatternParams<S extends string> = string extends S
+  ? URLPatternListParams
+  : ToParams<ParseGroups<S>>;
+
+type ComponentName =
+  | 'protocol'
+  | 'username'
+  | 'password'
+  | 'hostname'
+  | 'port'
+  | 'pathname'
+  | 'search'
+  | 'hash';
+
+/**
+ * The pattern string of a component of an init, which is `string` if it isn't
+ * a literal, and empty if the init doesn't have it.
+ */
+type ComponentPattern<I, K extends ComponentName> = K extends keyof I
+  ? I[K] extends string
+    ? I[K]
+    : string
+  : '';
+
+/**
+ * The pattern strings of every component of an init, joined with a `/` so
+ * that each one is parsed separately.
+ */
+type JoinComponents<
+  I,
+  Names extends Array<ComponentName> = [
+    'protocol',
+    'username',
+    'password',
+    'hostname',
+    'port',
+    'pathname',
+    'search',
+    'hash',
+  ],
+> = Names extends [
+  infer K extends ComponentName,
+  ...infer Rest extends Array<ComponentName>,
+]
+  ? ComponentPattern<I, K> extends infer V extends string
+    ? string extends V
+      ? string
+      : JoinComponents<I, Rest> extends infer Joined extends string
+        ? string extends Joined
+          ? string
+          : `${V}/${Joined}`
+        : string
+    : string
+  : '';
+
+/**
+ * The named groups of a pattern that can be passed to
+ * `URLPatternList.addPattern()`: a pattern string, or a `URLPatternInit`
+ * with pattern strings for its components. Groups from every component are
+ * merged, like the `params` of the routers.
+ *
+ * For a `URLPattern`, or strings that aren't literals, this is
+ * `URLPatternListParams`.
+ */
+export type PatternInputParams<I> = I extends string
+  ? PatternParams<I>
+  : I extends URLPattern
+    ? URLPatternListParams
+    : I extends URLPatternInit
+      ? JoinComponents<I> extends infer S extends string
+        ? PatternParams<S>
+        : URLPatternListParams
+      : URLPatternListParams;
+
+/**
+ * A `params` option whose decoders return the types of `D`, like
+ * `{id: (value: string) => number}` for `{id: number}`. Functions that take
+ * the option infer `D` from it, rather than the option's own type, so that
+ * inline decoders like `(value) => Number(value)` have their `value` typed.
+ */
+export type ParamDecoders<D> = {
+  readonly [K in keyof D]: URLPatternListParamDecoder<D[K]>;
+};
+
+/**
+ * The params of a pattern with the groups of a `params` option decoded, like
+ * `{id: number}` for `{id: string}` and `{id: Number}`. Optional groups stay
+ * optional, as their decoders aren't called when they don't match.
+ */
+export type DecodedParams<
+  P extends URLPatternListParams,
+  S extends URLPatternListParamsSchema,
+> = string extends keyof P
+  ? keyof S extends never
+    ? P
+    : Record<string, unknown>
+  : Simplify<
+      {[K in keyof P as K extends keyof S ? never : K]: P[K]} & {
+        [K in keyof P as K extends keyof S ? K : never]:
+          | (K extends keyof S ? ReturnType<S[K]> : never)
+          | Exclude<P[K], string>;
+      }
+    >;
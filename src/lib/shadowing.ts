@@ -0,0 +1,159 @@
+import {
+  Modifier,
+  type Part,
+  PartType,
+  toASCIILowerCase,
+  URLComponentType,
+  urlComponentNames,
+} from './parse-pattern.js';
+
+/**
+ * Check whether pattern `a` matches every URL that pattern `b` matches, so
+ * that `b` can never match if `a` is tried first.
+ *
+ * The check is conservative: it compares the structure of the parsed parts
+ * and returns false whenever it can't prove that `a` covers `b`, for instance
+ * when `b` has a regex that would need to be compared with another regex or
+ * a wildcard.
+ *
+ * @param a - The pattern that might cover `b`, and its parsed parts
+ * @param b - The pattern that might be covered, and its parsed parts
+ */
+export const coversPattern = (
+  a: URLPattern,
+  aParts: ReadonlyArray<Part>,
+  b: URLPattern,
+  bParts: ReadonlyArray<Part>,
+): boolean => {
+  for (let i = 0; i < urlComponentNames.length; i++) {
+    const name = urlComponentNames[i];
+    if (a[name] === '*') {
+      continue;
+    }
+    if (b[name] === '*') {
+      return false;
+    }
+    const type = i as URLComponentType;
+    if (
+      !coversParts(
+        aParts.filter((part) => part.urlComponentType === type),
+        0,
+        bParts.filter((part) => part.urlComponentType === type),
+        0,
+      )
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Check whether the parts of `a` starting at `i` match every string that the
+ * parts of `b` starting at `j` match.
+ *
+ * Each part of `a` must cover one part of `b`, except for optional parts of
+ * `a` which may cover nothing, and a trailing full wildcard of `a` which may
+ * cover all remaining parts of `b`. Since matching languages are
+ * concatenated, covering each part covers the whole.
+ */
+const coversParts = (
+  a: ReadonlyArray<Part>,
+  i: number,
+  b: ReadonlyArray<Part>,
+  j: number,
+): boolean => {
+  if (i === a.length) {
+    return j === b.length;
+  }
+  const aPart = a[i];
+
+  if (
+    j < b.length &&
+    coversPart(aPart, b[j]) &&
+    coversParts(a, i + 1, b, j + 1)
+  ) {
+    return true;
+  }
+
+  if (
+    aPart.type === PartType.FullWildcard &&
+    aPart.modifier === Modifier.None &&
+    aPart.suffix === '' &&
+    i === a.length - 1
+  ) {
+    // A trailing `*` matches anything after its prefix, so it covers the rest
+    // of `b` as long as `b` always starts with that prefix.
+    return (
+      aPart.prefix === '' || (j < b.length && startsWith(b[j], aPart.prefix))
+    );
+  }
+
+  // Parts that can match the empty string may cover nothing
+  if (
+    aPart.modifier === Modifier.Optional ||
+    aPart.modifier === Modifier.ZeroOrMore
+  ) {
+    return coversParts(a, i + 1, b, j);
+  }
+
+  return false;
+};
+
+/**
+ * Check whether part `a` matches every string that part `b` matches.
+ */
+const coversPart = (a: Part, b: Part): boolean => {
+  if (isSamePart(a, b)) {
+    return true;
+  }
+
+  // A `/:name` path segment matches any single fixed segment, whatever its
+  // modifier
+  return (
+    a.type === PartType.SegmentWildcard &&
+    a.urlComponentType === URLComponentType.Pathname &&
+    a.prefix === '/' &&
+    a.suffix === '' &&
+    b.type === PartType.Fixed &&
+    b.modifier === Modifier.None &&
+    b.value.length > 1 &&
+    b.value.lastIndexOf('/') === 0
+  );
+};
+
+/**
+ * Check whether two parts match the same strings, ignoring their names. A
+ * case-insensitive part also covers the same case-sensitive part, but not the
+ * other way around.
+ */
+const isSamePart = (a: Part, b: Part): boolean => {
+  if (
+    a.type !== b.type ||
+    a.modifier !== b.modifier ||
+    (b.ignoreCase === true && a.ignoreCase !== true)
+  ) {
+    return false;
+  }
+  const fold = a.ignoreCase === true ? toASCIILowerCase : (s: string) => s;
+  return (
+    fold(a.prefix) === fold(b.prefix) &&
+    fold(a.suffix) === fold(b.suffix) &&
+    (a.type === PartType.Regex
+      ? a.value === b.value
+      : fold(a.value) === fold(b.value))
+  );
+};
+
+/**
+ * Check whether every string that part `b` matches starts with `prefix`.
+ */
+const startsWith = (b: Part, prefix: string): boolean => {
+  if (b.type === PartType.Fixed) {
+    return b.modifier === Modifier.None && b.value.startsWith(prefix);
+  }
+  return (
+    b.prefix.startsWith(prefix) &&
+    (b.modifier === Modifier.None || b.modifier === Modifier.OneOrMore)
+  );
+};
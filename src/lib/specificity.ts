@@ -0,0 +1,114 @@
+import {
+  Modifier,
+  type Part,
+  PartType,
+  urlComponentNames,
+} from './parse-pattern.js';
+
+/**
+ * The specificity of a pattern, as an array of part ranks for each URL
+ * component in URL order. Lower ranks are more specific.
+ *
+ * Fixed parts have a rank for each of their characters, so that fixed text
+ * is compared with the parts of other patterns at the same position: the `l`
+ * of `/post-latest` is compared with the `:id` of `/post-:id`.
+ */
+export type Specificity = Array<Array<number>>;
+
+const partTypeRanks: Record<PartType, number> = {
+  [PartType.Fixed]: 0,
+  [PartType.SegmentWildcard]: 1,
+  [PartType.Regex]: 2,
+  [PartType.FullWildcard]: 3,
+};
+
+const modifierRanks: Record<Modifier, number> = {
+  [Modifier.None]: 0,
+  [Modifier.Optional]: 1,
+  [Modifier.OneOrMore]: 2,
+  [Modifier.ZeroOrMore]: 3,
+};
+
+/**
+ * Rank a single part. The part type is the most significant factor, so any
+ * fixed part is more specific than any parameter, regardless of modifiers.
+ */
+const rankPart = (part: Part): number =>
+  partTypeRanks[part.type] * 4 + modifierRanks[part.modifier];
+
+/**
+ * Whether a part with a rank can match the empty string: a part with the
+ * `?` or `*` modifier, or a full wildcard.
+ */
+const canMatchEmpty = (rank: number): boolean =>
+  rank >= partTypeRanks[PartType.FullWildcard] * 4 ||
+  rank % 4 === modifierRanks[Modifier.Optional] ||
+  rank % 4 === modifierRanks[Modifier.ZeroOrMore];
+
+/**
+ * Components that are `*` in the URLPattern have no parts, and rank like a
+ * single full wildcard.
+ */
+const unconstrainedRanks = [partTypeRanks[PartType.FullWildcard] * 4];
+
+/**
+ * Components that are the empty string also have no parts, but only match
+ * the empty string, so they rank before anything else.
+ */
+const emptyRanks = [-1];
+
+/**
+ * Compute the specificity of a pattern from its parsed parts.
+ */
+export const getSpecificity = (
+  pattern: URLPattern,
+  parts: ReadonlyArray<Part>,
+): Specificity => {
+  const specificity: Specificity = urlComponentNames.map(() => []);
+  for (const part of parts) {
+    const rank = rankPart(part);
+    const count =
+      part.type === PartType.Fixed ? Math.max(part.value.length, 1) : 1;
+    for (let i = 0; i < count; i++) {
+      specificity[part.urlComponentType].push(rank);
+    }
+  }
+  return specificity.map((ranks, i) => {
+    if (ranks.length > 0) {
+      return ranks;
+    }
+    return pattern[urlComponentNames[i]] === '*'
+      ? unconstrainedRanks
+      : emptyRanks;
+  });
+};
+
+/**
+ * Compare two specificities, for sorting the most specific first.
+ *
+ * Components are compared in URL order, and parts within a component are
+ * compared in order, with each character of fixed text compared like a part.
+ * The first differing rank decides: fixed text beats a `:param`, which beats
+ * a regex, which beats a `*`. If one component's ranks are a prefix of the
+ * other's, the longer one is more specific, unless all of its extra parts
+ * can match the empty string: `/a` beats `/a/:b?` and `/a*`, which match
+ * `/a` by leaving their tails empty.
+ */
+export const compareSpecificity = (a: Specificity, b: Specificity): number => {
+  for (let c = 0; c < urlComponentNames.length; c++) {
+    const aRanks = a[c];
+    const bRanks = b[c];
+    const length = Math.min(aRanks.length, bRanks.length);
+    for (let i = 0; i < length; i++) {
+      if (aRanks[i] !== bRanks[i]) {
+        return aRanks[i] - bRanks[i];
+      }
+    }
+    if (aRanks.length !== bRanks.length) {
+      const longer = aRanks.length > bRanks.length ? aRanks : bRanks;
+      const optionalTail = longer.slice(length).every(canMatchEmpty);
+      return (bRanks.length - aRanks.length) * (optionalTail ? -1 : 1);
+    }
+  }
+  return 0;
+};
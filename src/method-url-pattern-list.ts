@@ -0,0 +1,191 @@
+import {
+  URLPatternList,
+  type URLPatternListAddOptions,
+  type URLPatternListItem,
+  type URLPatternListMatch,
+  type URLPatternListMatchInput,
+  type URLPatternListOptions,
+  type URLPatternListPatternInput,
+} from './index.js';
+import type {
+  DecodedParams,
+  ParamDecoders,
+  PatternInputParams,
+} from './lib/pattern-params.js';
+
+/**
+ * The value stored in the underlying `URLPatternList` for each pattern of a
+ * `MethodURLPatternList`.
+ */
+export interface MethodURLPatternListRoute<T> {
+  /**
+   * The normalized HTTP methods the pattern was added with.
+   */
+  readonly methods: ReadonlySet<string>;
+  readonly value: T;
+}
+
+/**
+ * Methods that are normalized to uppercase, as `fetch()` and `Request` do.
+ * Other methods are case-sensitive.
+ */
+const normalizedMethods = new Set([
+  'DELETE',
+  'GET',
+  'HEAD',
+  'OPTIONS',
+  'POST',
+  'PUT',
+]);
+
+/**
+ * The characters allowed in an HTTP method, which is a token.
+ */
+const methodToken = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Normalize an HTTP method like the Fetch spec does: the standard methods
+ * are matched case-insensitively, and other methods are kept as-is.
+ */
+export const normalizeMethod = (method: string): string => {
+  if (!methodToken.test(method)) {
+    throw new TypeError(`Invalid HTTP method: ${JSON.stringify(method)}`);
+  }
+  const upper = method.toUpperCase();
+  return normalizedMethods.has(upper) ? upper : method;
+};
+
+/**
+ * A collection of URL patterns that also match on the HTTP method.
+ *
+ * Each pattern is added with the methods it handles. All patterns share one
+ * `URLPatternList`, so a URL is matched once for every method, and the
+ * methods of the patterns that matched a URL can be reported for the `Allow`
+ * header of a 405 response.
+ *
+ * ```ts
+ * const routes = new MethodURLPatternList<Handler>();
+ * routes.addPattern('GET', {pathname: '/users/:id'}, getUser);
+ * routes.addPattern(['PUT', 'PATCH'], {pathname: '/users/:id'}, updateUser);
+ *
+ * const match = routes.match(request.method, request.url);
+ * if (match === null) {
+ *   const allow = routes.allowedMethods(request.url);
+ *   // 404 if allow is empty, otherwise 405
+ * }
+ * ```
+ */
+export class MethodURLPatternList<T> {
+  readonly #list: URLPatternList<MethodURLPatternListRoute<T>>;
+
+  /**
+   * @param options - Options for the underlying `URLPatternList`
+   */
+  constructor(options?: URLPatternListOptions) {
+    this.#list = new URLPatternList(options);
+  }
+
+  /**
+   * Add a pattern for one or more HTTP methods.
+   *
+   * The methods are normalized like `Request` normalizes them, so `'get'`
+   * handles `GET` requests.
+   *
+   * @param methods - The method or methods the pattern handles
+   * @param pattern - The pattern, like `URLPatternList.addPattern()` takes
+   * @param value - The value associated with the pattern, like a handler
+   * @param options - Options for the pattern. Patterns whose `params` are
+   *     rejected don't match for any method.
+   * @returns A handle that can be passed to `removePattern()`, typed with
+   *     the params of the pattern like `URLPatternList.addPattern()` returns
+   */
+  addPattern<
+    const P extends URLPatternListPatternInput,
+    D extends Record<string, unknown> = {},
+  >(
+    methods: string | Iterable<string>,
+    pattern: P,
+    value: T,
+    options?: URLPatternListAddOptions<ParamDecoders<D>>,
+  ): URLPatternListItem<
+    MethodURLPatternListRoute<T>,
+    DecodedParams<PatternInputParams<P>, ParamDecoders<D>>
+  >;
+  addPattern(
+    methods: string | Iterable<string>,
+    pattern: URLPatternListPatternInput,
+    value: T,
+    options?: URLPatternListAddOptions,
+  ): URLPatternListItem<MethodURLPatternListRoute<T>> {
+    const normalized = new Set(
+      Array.from(typeof methods === 'string' ? [methods] : methods, (method) =>
+        normalizeMethod(method),
+      ),
+    );
+    if (normalized.size === 0) {
+      throw new TypeError('A pattern must be added with at least one method');
+    }
+    return this.#list.addPattern(
+      pattern,
+      {methods: normalized, value},
+      options,
+    );
+  }
+
+  /**
+   * Remove a pattern for all of the methods it was added with.
+   *
+   * @param item - The handle returned by `addPattern()`
+   * @returns true if the pattern was found and removed
+   */
+  removePattern(
+    item: URLPatternListItem<MethodURLPatternListRoute<T>>,
+  ): boolean {
+    return this.#list.removePattern(item);
+  }
+
+  /**
+   * Match a request's method and URL, returning the first pattern that
+   * handles the method and matches the URL.
+   *
+   * @param method - The HTTP method of the request
+   * @param url - The URL to match
+   * @param baseUrl - Optional base URL for relative path resolution
+   */
+  match(
+    method: string,
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): URLPatternListMatch<T> | null {
+    const normalized = normalizeMethod(method);
+    for (const match of this.#list.matchAll(url, baseUrl)) {
+      if (match.value.methods.has(normalized)) {
+        return {...match, value: match.value.value};
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the methods of every pattern that matches a URL, in sorted order.
+   *
+   * When `match()` returns null for a request, an empty array means that no
+   * pattern matches the URL (404), and otherwise the URL only matches for
+   * other methods (405), and the array is the value of the `Allow` header.
+   *
+   * @param url - The URL to match
+   * @param baseUrl - Optional base URL for relative path resolution
+   */
+  allowedMethods(
+    url: URLPatternListMatchInput,
+    baseUrl?: string,
+  ): Array<string> {
+    const allowed = new Set<string>();
+    for (const {value} of this.#list.matchAll(url, baseUrl)) {
+      for (const method of value.methods) {
+        allowed.add(method);
+      }
+    }
+    return [...allowed].sort();
+  }
+}
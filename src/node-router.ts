@@ -0,0 +1,232 @@
+import type {IncomingMessage, ServerResponse} from 'node:http';
+import type {
+  URLPatternList,
+  URLPatternListAddOptions,
+  URLPatternListItem,
+  URLPatternListParams,
+  URLPatternListPatternInput,
+} from './index.js';
+import type {
+  DecodedParams,
+  ParamDecoders,
+  PatternInputParams,
+} from './lib/pattern-params.js';
+
+/**
+ * What a route handler is called with, besides the request and response.
+ */
+export interface NodeRouteMatch<
+  P extends Record<string, unknown> = URLPatternListParams,
+> {
+  /**
+   * The named groups of every URL component, like `{id: '1'}` for
+   * `/users/:id`, decoded by the pattern's `params` option if it has one.
+   * Unnamed groups, like `*`, are only in `result`.
+   */
+  params: P;
+  /**
+   * The result of the pattern's `exec()` on the request URL.
+   */
+  result: URLPatternResult;
+}
+
+/**
+ * A function that handles a request matched by a pattern, stored as the
+ * value of the pattern in a `URLPatternList`. `P` is the type of the params,
+ * which `addRoute()` infers from the pattern.
+ */
+export type NodeRouteHandler<
+  P extends Record<string, unknown> = URLPatternListParams,
+> = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  match: NodeRouteMatch<P>,
+) => void | Promise<void>;
+
+/**
+ * Options for `createRequestListener()`.
+ */
+export interface NodeRequestListenerOptions {
+  /**
+   * Handle requests whose URL doesn't match any pattern. Defaults to a plain
+   * 404 response.
+   */
+  notFound?: (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => void | Promise<void>;
+  /**
+   * Handle an error thrown or rejected by a handler. Defaults to a plain 500
+   * response, or to destroying the response if its headers were already
+   * sent. If this function throws or rejects, its error gets the default
+   * handling instead.
+   */
+  onError?: (
+    error: unknown,
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => void | Promise<void>;
+}
+
+const defaultOnError = (
+  error: unknown,
+  _req: IncomingMessage,
+  res: ServerResponse,
+) => {
+  if (res.headersSent) {
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+  res.statusCode = 500;
+  res.end('Internal Server Error');
+};
+
+/**
+ * Add a pattern to a list of handlers, with the handler's params typed with
+ * the pattern's named groups.
+ *
+ * This is `list.addPattern()` for handlers: when the pattern is a string or
+ * `URLPatternInit` literal, `'/users/:id'` gives params of `{id: string}`,
+ * and groups that might not match, like `:id?`, are optional. With the
+ * `params` option, like `{params: {id: Number}}`, the params are decoded.
+ *
+ * ```ts
+ * addRoute(routes, {pathname: '/users/:id'}, (req, res, {params}) => {
+ *   res.end(params.id);
+ * });
+ * ```
+ *
+ * @param list - The list of patterns, with handlers as their values
+ * @returns A handle that can be passed to `list.removePattern()`
+ */
+export const addRoute = <
+  const P extends URLPatternListPatternInput,
+  D extends Record<string, unknown> = {},
+>(
+  list: URLPatternList<NodeRouteHandler>,
+  pattern: P,
+  handler: NodeRouteHandler<
+    DecodedParams<PatternInputParams<P>, ParamDecoders<D>>
+  >,
+  options?: URLPatternListAddOptions<ParamDecoders<D>>,
+): URLPatternListItem<
+  NodeRouteHandler,
+  DecodedParams<PatternInputParams<P>, ParamDecoders<D>>
+> =>
+  list.addPattern(
+    pattern,
+    (req, res, {params, result}) =>
+      handler(req, res, {
+        // This wrapper is only called with matches of `pattern`, whose params
+        // are its named groups decoded by `options.params`.
+        params: params as DecodedParams<
+          PatternInputParams<P>,
+          ParamDecoders<D>
+        >,
+        result,
+      }),
+    options,
+  );
+
+/**
+ * Characters that would end the host of a URL, and move the rest of the
+ * `Host` header into the path.
+ */
+const hostDelimiters = /[/?#@\\]/;
+
+/**
+ * Get the absolute URL of a request to a `node:http` or `node:https` server.
+ *
+ * The protocol is `https:` if the connection is encrypted, and the host is
+ * taken from the `Host` header, or the `:authority` of an HTTP/2 request.
+ * Returns null if the request has no host, or if the URL isn't valid.
+ *
+ * Only the origin-form of request targets, like `/users/1?q`, is supported.
+ * Forwarding headers like `X-Forwarded-Proto` aren't trusted.
+ */
+export const getRequestURL = (req: IncomingMessage): URL | null => {
+  const host = req.headers.host ?? req.headers[':authority'];
+  const path = req.url;
+  if (
+    typeof host !== 'string' ||
+    host === '' ||
+    hostDelimiters.test(host) ||
+    path === undefined ||
+    !path.startsWith('/')
+  ) {
+    return null;
+  }
+  const encrypted = (req.socket as {encrypted?: boolean}).encrypted === true;
+  try {
+    return new URL(`${encrypted ? 'https' : 'http'}://${host}${path}`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Handle a request with the first handler in a list that matches it.
+ */
+const handleRequest = async (
+  list: URLPatternList<NodeRouteHandler>,
+  options: NodeRequestListenerOptions,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> => {
+  const url = getRequestURL(req);
+  if (url === null) {
+    res.statusCode = 400;
+    res.end('Bad Request');
+    return;
+  }
+  const match = list.match(url);
+  if (match === null) {
+    if (options.notFound !== undefined) {
+      return options.notFound(req, res);
+    }
+    res.statusCode = 404;
+    res.end('Not Found');
+    return;
+  }
+  const {result, value: handler, params} = match;
+  // The handlers of the list take untyped params. Handlers added with
+  // `addRoute()` are wrapped, and the wrapper types them for its pattern.
+  return handler(req, res, {params: params as URLPatternListParams, result});
+};
+
+/**
+ * Create a request listener for `http.createServer()` that calls the handler
+ * of the first pattern in a list that matches the request URL.
+ *
+ * Requests without a valid URL get a 400 response. Errors thrown or rejected
+ * by handlers are passed to the `onError` option, and errors thrown or
+ * rejected by `onError` get the default handling, so that they don't become
+ * unhandled rejections, which `http.createServer()` doesn't handle.
+ *
+ * ```ts
+ * const routes = new URLPatternList<NodeRouteHandler>();
+ * routes.addPattern({pathname: '/users/:id'}, (req, res, {params}) => {
+ *   res.end(params.id);
+ * });
+ *
+ * http.createServer(createRequestListener(routes)).listen(8080);
+ * ```
+ *
+ * @param list - The list of patterns, with handlers as their values
+ */
+export const createRequestListener =
+  (
+    list: URLPatternList<NodeRouteHandler>,
+    options: NodeRequestListenerOptions = {},
+  ) =>
+  async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      await handleRequest(list, options, req, res);
+    } catch (error) {
+      try {
+        await (options.onError ?? defaultOnError)(error, req, res);
+      } catch (onErrorError) {
+        defaultOnError(onErrorError, req, res);
+      }
+    }
+  };
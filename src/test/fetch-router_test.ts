@@ -0,0 +1,182 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {FetchRouter} from '../fetch-router.js';
+
+const createRouter = () => {
+  const router = new FetchRouter();
+  router.addRoute('GET', {pathname: '/users/:id'}, (_request, {params}) =>
+    Response.json({user: params.id}),
+  );
+  router.addRoute(['PUT', 'DELETE'], {pathname: '/users/:id'}, (request) =>
+    Response.json({method: request.method}),
+  );
+  router.addRoute('POST', {pathname: '/users'}, async (request) =>
+    Response.json(await request.json(), {status: 201}),
+  );
+  return router;
+};
+
+suite('FetchRouter', () => {
+  test('calls the handler of the matching route', async () => {
+    const router = createRouter();
+
+    const get = await router.handle(new Request('http://example.com/users/1'));
+    assert.strictEqual(get.status, 200);
+    assert.deepStrictEqual(await get.json(), {user: '1'});
+
+    const put = await router.handle(
+      new Request('http://example.com/users/1', {method: 'PUT'}),
+    );
+    assert.deepStrictEqual(await put.json(), {method: 'PUT'});
+
+    const post = await router.handle(
+      new Request('http://example.com/users', {
+        method: 'POST',
+        body: JSON.stringify({name: 'a'}),
+      }),
+    );
+    assert.strictEqual(post.status, 201);
+    assert.deepStrictEqual(await post.json(), {name: 'a'});
+  });
+
+  test('passes the named groups of every component as params', async () => {
+    const router = new FetchRouter();
+    let match;
+    router.addRoute(
+      'GET',
+      'https://:tenant.example.com/files/:dir/*',
+      (_request, routeMatch) => {
+        match = routeMatch;
+        return new Response();
+      },
+    );
+
+    await router.handle(new Request('https://acme.example.com/files/a/b/c'));
+    assert.deepStrictEqual(match!.params, {tenant: 'acme', dir: 'a'});
+    assert.strictEqual(match!.result.pathname.groups['0'], 'b/c');
+  });
+
+  test('returns 404 for URLs that no route matches', async () => {
+    const response = await createRouter().handle(
+      new Request('http://example.com/other'),
+    );
+
+    assert.strictEqual(response.status, 404);
+    assert.strictEqual(response.headers.get('Allow'), null);
+  });
+
+  test('returns 405 with an Allow header for other methods', async () => {
+    const response = await createRouter().handle(
+      new Request('http://example.com/users/1', {method: 'POST'}),
+    );
+
+    assert.strictEqual(response.status, 405);
+    assert.strictEqual(response.headers.get('Allow'), 'DELETE, GET, PUT');
+  });
+
+  test('uses custom notFound and methodNotAllowed handlers', async () => {
+    const router = new FetchRouter({
+      notFound: (request) =>
+        new Response(`No ${new URL(request.url).pathname}`, {status: 404}),
+      methodNotAllowed: (_request, allowedMethods) =>
+        Response.json({allowedMethods}, {status: 405}),
+    });
+    router.addRoute('GET', {pathname: '/a'}, () => new Response('a'));
+
+    const notFound = await router.handle(new Request('http://example.com/b'));
+    assert.strictEqual(await notFound.text(), 'No /b');
+
+    const notAllowed = await router.handle(
+      new Request('http://example.com/a', {method: 'DELETE'}),
+    );
+    assert.deepStrictEqual(await notAllowed.json(), {allowedMethods: ['GET']});
+  });
+
+  test('passes extra arguments to handlers', async () => {
+    const router = new FetchRouter<[env: {greeting: string}]>({
+      notFound: (_request, env) => new Response(`${env.greeting}?`),
+    });
+    router.addRoute(
+      'GET',
+      {pathname: '/hello/:name'},
+      (_request, {params}, env) =>
+        new Response(`${env.greeting} ${params.name}`),
+    );
+    const env = {greeting: 'Hi'};
+
+    const hello = await router.handle(
+      new Request('http://example.com/hello/you'),
+      env,
+    );
+    assert.strictEqual(await hello.text(), 'Hi you');
+    const other = await router.handle(new Request('http://example.com/'), env);
+    assert.strictEqual(await other.text(), 'Hi?');
+  });
+
+  test('types params with the named groups of the pattern', async () => {
+    const router = new FetchRouter();
+    router.addRoute(
+      'GET',
+      {hostname: ':tenant.example.com', pathname: '/posts{/:year}?/:slug'},
+      (_request, {params}) => {
+        const tenant: string = params.tenant;
+        const year: string | undefined = params.year;
+        // @ts-expect-error year is optional
+        const requiredYear: string = params.year;
+        // @ts-expect-error there's no such group
+        params.other;
+        return Response.json({tenant, year, slug: params.slug, requiredYear});
+      },
+    );
+
+    const response = await router.handle(
+      new Request('http://acme.example.com/posts/hello'),
+    );
+    assert.deepStrictEqual(await response.json(), {
+      tenant: 'acme',
+      slug: 'hello',
+    });
+  });
+
+  test('decodes params with the params option', async () => {
+    const router = new FetchRouter();
+    router.addRoute(
+      'GET',
+      {pathname: '/users/:id/:tab?'},
+      (_request, {params}) => {
+        const id: number = params.id;
+        const tab: string | undefined = params.tab;
+        return Response.json({id: id + 1, tab});
+      },
+      {
+        params: {
+          id: (value: string) => {
+            if (!/^\d+$/.test(value)) {
+              throw new TypeError('Not an integer');
+            }
+            return Number(value);
+          },
+        },
+      },
+    );
+    router.addRoute('GET', {pathname: '/users/:name'}, (_request, {params}) =>
+      Response.json({name: params.name}),
+    );
+
+    const user = await router.handle(new Request('http://example.com/users/1'));
+    assert.deepStrictEqual(await user.json(), {id: 2});
+    const name = await router.handle(
+      new Request('http://example.com/users/ada'),
+    );
+    assert.deepStrictEqual(await name.json(), {name: 'ada'});
+  });
+
+  test('removes routes', async () => {
+    const router = createRouter();
+    const item = router.addRoute('GET', {pathname: '/a'}, () => new Response());
+
+    assert.strictEqual(router.removeRoute(item), true);
+    const response = await router.handle(new Request('http://example.com/a'));
+    assert.strictEqual(response.status, 404);
+  });
+});
@@ -0,0 +1,107 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {parseFullURL} from '../../lib/parse-pattern.js';
+import {buildPatternURL} from '../../lib/build-url.js';
+
+const build = (
+  init: URLPatternInit | string,
+  params: Record<string, string | undefined> = {},
+) => {
+  const pattern = new URLPattern(init);
+  return buildPatternURL(pattern, parseFullURL(pattern), params);
+};
+
+suite('buildPatternURL', () => {
+  test('builds a path from named params', () => {
+    assert.strictEqual(
+      build({pathname: '/users/:id/posts/:postId'}, {id: '42', postId: '7'}),
+      '/users/42/posts/7',
+    );
+  });
+
+  test('builds every component of a full URL pattern', () => {
+    assert.strictEqual(
+      build('https://:tenant.example.com/a/:id\\?tab=:tab#top', {
+        tenant: 'acme',
+        id: '1',
+        tab: 'info',
+      }),
+      'https://acme.example.com/a/1?tab=info#top',
+    );
+    assert.strictEqual(
+      build({protocol: 'http', hostname: 'localhost', port: '8080'}),
+      'http://localhost:8080',
+    );
+  });
+
+  test('uses indexes for unnamed groups', () => {
+    assert.strictEqual(
+      build({pathname: '/files/(\\d+)/*'}, {0: '12', 1: 'a/b.txt'}),
+      '/files/12/a/b.txt',
+    );
+  });
+
+  test('leaves out optional parts without a value', () => {
+    assert.strictEqual(build({pathname: '/a/:id?'}), '/a');
+    assert.strictEqual(build({pathname: '/a/:id?'}, {id: 'b'}), '/a/b');
+    assert.strictEqual(build({pathname: '/a{/index.html}?'}), '/a');
+    assert.strictEqual(build({pathname: '/a/:rest*'}), '/a');
+  });
+
+  test('accepts joined values for repeated parts', () => {
+    assert.strictEqual(
+      build({pathname: '/a/:rest+'}, {rest: 'b/c/d'}),
+      '/a/b/c/d',
+    );
+    assert.strictEqual(
+      build({pathname: '/n/(\\d+)+'}, {0: '1/2/3'}),
+      '/n/1/2/3',
+    );
+    assert.throws(() => build({pathname: '/n/(\\d+)+'}, {0: '1/x'}), TypeError);
+  });
+
+  test('throws for missing required params', () => {
+    assert.throws(() => build({pathname: '/users/:id'}), {
+      name: 'TypeError',
+      message: 'Missing parameter "id" for pathname pattern "/users/:id"',
+    });
+  });
+
+  test('throws for params that do not match their part', () => {
+    assert.throws(() => build({pathname: '/users/(\\d+)'}, {0: 'abc'}), {
+      name: 'TypeError',
+      message:
+        'Parameter "0" with value "abc" doesn\'t match /\\d+/ in pathname pattern "/users/(\\d+)"',
+    });
+    assert.throws(
+      () => build({pathname: '/users/:id'}, {id: 'a/b'}),
+      TypeError,
+    );
+    assert.throws(
+      () => build({hostname: ':sub.example.com'}, {sub: 'a.b'}),
+      TypeError,
+    );
+  });
+
+  test('throws for components that need a hostname', () => {
+    assert.throws(
+      () => build({protocol: 'https', pathname: '/x/:id'}, {id: '1'}),
+      {
+        name: 'TypeError',
+        message:
+          'Can\'t build a URL for protocol pattern "https" without a hostname',
+      },
+    );
+    assert.throws(() => build({port: '8080', pathname: '/'}), TypeError);
+    assert.strictEqual(build({protocol: ':scheme?', pathname: '/x'}), '/x');
+  });
+
+  test('round-trips match groups', () => {
+    const pattern = new URLPattern({pathname: '/:lang(en|fr)/docs/:page+'});
+    const result = pattern.exec('https://example.com/fr/docs/a/b%20c')!;
+    assert.strictEqual(
+      buildPatternURL(pattern, parseFullURL(pattern), result.pathname.groups),
+      '/fr/docs/a/b%20c',
+    );
+  });
+});
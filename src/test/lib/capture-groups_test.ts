@@ -0,0 +1,106 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {parseFullURL, URLComponentType} from '../../lib/parse-pattern.js';
+import {
+  buildCapturedResult,
+  canCaptureGroups,
+  type CapturedSpan,
+  isSameResult,
+} from '../../lib/capture-groups.js';
+
+const canCapture = (pathname: string) =>
+  canCaptureGroups(parseFullURL(new URLPattern({pathname})));
+
+const pathSpans = (...values: Array<string>): Array<CapturedSpan> =>
+  values.map((value) => ({urlComponentType: URLComponentType.Pathname, value}));
+
+/**
+ * Build a result for a pathname pattern matched against
+ * `http://example.com` + `pathname`.
+ */
+const build = (
+  pattern: URLPattern,
+  pathname: string,
+  spans: Array<CapturedSpan>,
+) =>
+  buildCapturedResult(
+    pattern,
+    parseFullURL(pattern),
+    spans,
+    ['http', '', '', 'example.com', '', pathname, '', ''],
+    [`http://example.com${pathname}`],
+  );
+
+suite('canCaptureGroups', () => {
+  test('accepts patterns that can only be split up one way', () => {
+    assert.strictEqual(canCapture('/users/:id'), true);
+    assert.strictEqual(canCapture('/users/:id/posts/:postId'), true);
+    assert.strictEqual(canCapture('/files/:id/*'), true);
+    assert.strictEqual(canCapture('/a/:rest+'), true);
+    assert.strictEqual(canCapture('/a/:id?'), true);
+    assert.strictEqual(canCapture('/:id.json'), true);
+    assert.strictEqual(
+      canCaptureGroups(
+        parseFullURL(new URLPattern('https://:sub.example.com/a/:id')),
+      ),
+      true,
+    );
+  });
+
+  test('rejects patterns that can be split up more than one way', () => {
+    assert.strictEqual(canCapture('/:a-:b'), false);
+    assert.strictEqual(canCapture('/*/:id'), false);
+    assert.strictEqual(canCapture('/:a?/:b'), false);
+    assert.strictEqual(canCapture('/a{/b}?/:id'), false);
+  });
+});
+
+suite('buildCapturedResult', () => {
+  test('builds the same result as exec()', () => {
+    const pattern = new URLPattern({pathname: '/users/:id/files/*'});
+    const url = 'http://example.com/users/42/files/a/b.txt';
+
+    assert.deepStrictEqual(
+      build(pattern, '/users/42/files/a/b.txt', pathSpans('/42', '/a/b.txt')),
+      pattern.exec(url),
+    );
+  });
+
+  test('leaves optional groups that matched nothing undefined', () => {
+    const pattern = new URLPattern({pathname: '/a/:id?'});
+
+    assert.deepStrictEqual(
+      build(pattern, '/a', pathSpans('')),
+      pattern.exec('http://example.com/a'),
+    );
+  });
+
+  test("returns null if the spans don't line up with the parts", () => {
+    const pattern = new URLPattern({pathname: '/users/:id'});
+
+    assert.strictEqual(build(pattern, '/users/42', pathSpans()), null);
+    assert.strictEqual(build(pattern, '/users/42', pathSpans('/4')), null);
+    assert.strictEqual(build(pattern, '/users/42', pathSpans('42')), null);
+    assert.strictEqual(build(pattern, '/users/4/2', pathSpans('/4/2')), null);
+  });
+});
+
+suite('isSameResult', () => {
+  test('compares inputs and groups', () => {
+    const pattern = new URLPattern({pathname: '/a/:id?'});
+    const a = pattern.exec('http://example.com/a/1')!;
+
+    assert.strictEqual(
+      isSameResult(a, pattern.exec('http://example.com/a/1')!),
+      true,
+    );
+    assert.strictEqual(
+      isSameResult(a, pattern.exec('http://example.com/a/2')!),
+      false,
+    );
+    assert.strictEqual(
+      isSameResult(a, pattern.exec('http://example.com/a')!),
+      false,
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {LRUCache} from '../../lib/lru-cache.js';
+
+suite('LRUCache', () => {
+  test('evicts the least recently used entry when full', () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    assert.strictEqual(cache.get('a'), 1);
+    cache.set('c', 3);
+
+    assert.strictEqual(cache.size, 2);
+    assert.strictEqual(cache.get('b'), undefined);
+    assert.strictEqual(cache.get('a'), 1);
+    assert.strictEqual(cache.get('c'), 3);
+  });
+
+  test('replaces entries without evicting others', () => {
+    const cache = new LRUCache<string, number | null>(2);
+    cache.set('a', 1);
+    cache.set('b', null);
+    cache.set('a', 2);
+
+    assert.strictEqual(cache.size, 2);
+    assert.strictEqual(cache.get('a'), 2);
+    assert.strictEqual(cache.get('b'), null);
+  });
+
+  test('counts hits and misses', () => {
+    const cache = new LRUCache<string, number>(1);
+    cache.get('a');
+    cache.set('a', 1);
+    cache.get('a');
+    cache.get('a');
+    cache.clear();
+    cache.get('a');
+
+    assert.strictEqual(cache.hits, 2);
+    assert.strictEqual(cache.misses, 2);
+    assert.strictEqual(cache.size, 0);
+  });
+
+  test('throws for invalid capacities', () => {
+    assert.throws(() => new LRUCache(0), TypeError);
+    assert.throws(() => new LRUCache(1.5), TypeError);
+  });
+});
@@ -0,0 +1,28 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {getNamedGroups} from '../../lib/params.js';
+
+suite('getNamedGroups', () => {
+  test('merges the named groups of every component', () => {
+    const pattern = new URLPattern({
+      hostname: ':tenant.example.com',
+      pathname: '/users/:id/*',
+      search: 'q=:query',
+    });
+    const result = pattern.exec('https://acme.example.com/users/1/a/b?q=x')!;
+
+    assert.deepStrictEqual(getNamedGroups(result), {
+      tenant: 'acme',
+      id: '1',
+      query: 'x',
+    });
+  });
+
+  test('keeps optional groups that matched nothing', () => {
+    const pattern = new URLPattern({pathname: '/a/:id?'});
+
+    assert.deepStrictEqual(getNamedGroups(pattern.exec({pathname: '/a'})!), {
+      id: undefined,
+    });
+  });
+});
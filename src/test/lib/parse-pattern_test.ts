@@ -551,6 +551,52 @@ suite('parse-pattern', () => {
     });
   });
 
+  suite('parse() with ignoreCase', () => {
+    test('lowercases and flags fixed parts that contain letters', () => {
+      const result = parse('/Users/123', URLComponentType.Pathname, {
+        ignoreCase: true,
+      });
+      assert.deepStrictEqual(result, [
+        {
+          type: PartType.Fixed,
+          name: '',
+          prefix: '',
+          value: '/users',
+          suffix: '',
+          modifier: Modifier.None,
+          urlComponentType: URLComponentType.Pathname,
+          ignoreCase: true,
+        },
+        {
+          type: PartType.Fixed,
+          name: '',
+          prefix: '',
+          value: '/123',
+          suffix: '',
+          modifier: Modifier.None,
+          urlComponentType: URLComponentType.Pathname,
+        },
+      ]);
+    });
+
+    test('flags wildcards only when their prefix or suffix has letters', () => {
+      const result = parse('/:id{X:name}', URLComponentType.Pathname, {
+        ignoreCase: true,
+      });
+      assert.strictEqual(result[0].ignoreCase, undefined);
+      assert.strictEqual(result[1].ignoreCase, true);
+      assert.strictEqual(result[1].prefix, 'x');
+    });
+
+    test('flags regex parts without changing the regex', () => {
+      const result = parse('/(Foo|Bar)', URLComponentType.Pathname, {
+        ignoreCase: true,
+      });
+      assert.strictEqual(result[0].value, 'Foo|Bar');
+      assert.strictEqual(result[0].ignoreCase, true);
+    });
+  });
+
   suite('parseFullURL()', () => {
     test('parses a pathname-only pattern', () => {
       const pattern = new URLPattern({ pathname: '/users/:id' });
@@ -950,5 +996,21 @@ suite('parse-pattern', () => {
       assert.strictEqual(result[1].urlComponentType, URLComponentType.Hostname);
       // Empty pathname should not create any parts
     });
+
+    test('passes ignoreCase to each component', () => {
+      const pattern = new URLPattern(
+        {pathname: '/Docs', hash: 'Intro'},
+        {ignoreCase: true},
+      );
+      const result = parseFullURL(pattern, {ignoreCase: true});
+
+      assert.deepStrictEqual(
+        result.map((p) => [p.value, p.ignoreCase]),
+        [
+          ['/docs', true],
+          ['intro', true],
+        ],
+      );
+    });
   });
 });
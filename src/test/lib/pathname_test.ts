@@ -0,0 +1,54 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {isCanonicalPathname} from '../../lib/pathname.js';
+
+const anyPattern = new URLPattern();
+
+/**
+ * Check that a pathname that's reported canonical is left as-is by
+ * URLPattern.
+ */
+const assertCanonical = (pathname: string) => {
+  assert.strictEqual(isCanonicalPathname(pathname), true, pathname);
+  assert.strictEqual(anyPattern.exec({pathname})?.pathname.input, pathname);
+};
+
+suite('isCanonicalPathname', () => {
+  test('accepts paths that URLPattern leaves as-is', () => {
+    assertCanonical('/');
+    assertCanonical('/users/1');
+    assertCanonical('/files/a.b/c..d/.e');
+    assertCanonical('//double//slashes/');
+    assertCanonical('/%20/%C3%BC');
+    assertCanonical("/-!$&'()*+,;=:@[]|~_");
+  });
+
+  test('rejects paths that URLPattern changes', () => {
+    for (const pathname of [
+      '',
+      'relative',
+      '/a b',
+      '/ü',
+      '/a\\b',
+      '/a?b',
+      '/a#b',
+      '/a^b',
+      '/a/./b',
+      '/a/../b',
+      '/a/..',
+      '/%2e%2E/b',
+      '/.%2e',
+    ]) {
+      assert.strictEqual(isCanonicalPathname(pathname), false, pathname);
+    }
+  });
+
+  test('agrees with URLPattern for every ASCII character', () => {
+    for (let code = 0; code < 128; code++) {
+      const pathname = `/a${String.fromCharCode(code)}b`;
+      if (isCanonicalPathname(pathname)) {
+        assertCanonical(pathname);
+      }
+    }
+  });
+});
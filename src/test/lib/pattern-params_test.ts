@@ -0,0 +1,136 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import type {URLPatternListParams} from '../../index.js';
+import type {
+  DecodedParams,
+  PatternInputParams,
+  PatternParams,
+} from '../../lib/pattern-params.js';
+
+type Equal<A, B> =
+  (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B ? 1 : 2
+    ? true
+    : false;
+
+/**
+ * Check that two types are the same. The checks happen when the tests are
+ * type-checked, and the function does nothing at runtime.
+ */
+const assertType = <_ extends true>() => {};
+
+suite('PatternParams', () => {
+  test('infers named groups', () => {
+    assertType<Equal<PatternParams<'/users/:id'>, {id: string}>>();
+    assertType<
+      Equal<
+        PatternParams<'/users/:userId/posts/:post_id'>,
+        {userId: string; post_id: string}
+      >
+    >();
+    assertType<Equal<PatternParams<'/:id.json'>, {id: string}>>();
+    assertType<Equal<PatternParams<'/about'>, {}>>();
+    assertType<Equal<PatternParams<'/:a-:b'>, {a: string; b: string}>>();
+  });
+
+  test('skips regexes and unnamed groups', () => {
+    assertType<Equal<PatternParams<'/items/:id(\\d+)'>, {id: string}>>();
+    assertType<
+      Equal<PatternParams<'/:kind(a|(b)|\\))/:id'>, {kind: string; id: string}>
+    >();
+    assertType<Equal<PatternParams<'/files/*/:name'>, {name: string}>>();
+    assertType<Equal<PatternParams<'/(\\d+)/:name'>, {name: string}>>();
+    assertType<Equal<PatternParams<'/a\\:b/:c'>, {c: string}>>();
+    assertType<Equal<PatternParams<'http://localhost:8080/:a'>, {a: string}>>();
+  });
+
+  test('makes groups with optional modifiers optional', () => {
+    assertType<
+      Equal<PatternParams<'/users/:id?'>, {id?: string | undefined}>
+    >();
+    assertType<
+      Equal<
+        PatternParams<'/:a*/:b+/:c(\\d+)?'>,
+        {a?: string | undefined; b: string; c?: string | undefined}
+      >
+    >();
+  });
+
+  test('makes groups inside optional braces optional', () => {
+    assertType<
+      Equal<
+        PatternParams<'/blog{/:year{-:month}?}?/:slug'>,
+        {year?: string | undefined; month?: string | undefined; slug: string}
+      >
+    >();
+    assertType<Equal<PatternParams<'/a{/:b}+/:c'>, {b: string; c: string}>>();
+  });
+
+  test('falls back to URLPatternListParams for strings', () => {
+    assertType<Equal<PatternParams<string>, URLPatternListParams>>();
+  });
+});
+
+suite('PatternInputParams', () => {
+  test('merges the groups of init components', () => {
+    assertType<
+      Equal<
+        PatternInputParams<{
+          hostname: ':tenant.example.com';
+          pathname: '/users/:id?';
+        }>,
+        {tenant: string; id?: string | undefined}
+      >
+    >();
+    assertType<Equal<PatternInputParams<'/users/:id'>, {id: string}>>();
+  });
+
+  test('falls back to URLPatternListParams', () => {
+    assertType<Equal<PatternInputParams<URLPattern>, URLPatternListParams>>();
+    assertType<
+      Equal<PatternInputParams<URLPatternInit>, URLPatternListParams>
+    >();
+    assertType<
+      Equal<PatternInputParams<{pathname: string}>, URLPatternListParams>
+    >();
+  });
+
+  test('agrees with the groups of exec() results', () => {
+    const pathname = '/blog{/:year}?/:slug(\\w+)';
+    const groups = new URLPattern({pathname}).exec({pathname: '/blog/a'})!
+      .pathname.groups as PatternParams<typeof pathname>;
+
+    assert.deepStrictEqual(groups, {year: undefined, slug: 'a'});
+  });
+});
+
+suite('DecodedParams', () => {
+  test('replaces the types of decoded groups', () => {
+    assertType<
+      Equal<
+        DecodedParams<{id: string; slug: string}, {id: (v: string) => number}>,
+        {id: number; slug: string}
+      >
+    >();
+  });
+
+  test('keeps optional groups optional', () => {
+    assertType<
+      Equal<
+        DecodedParams<{page?: string | undefined}, {page: typeof Number}>,
+        {page?: number | undefined}
+      >
+    >();
+  });
+
+  test('falls back to unknown values for generic params', () => {
+    assertType<
+      Equal<DecodedParams<URLPatternListParams, {}>, URLPatternListParams>
+    >();
+    assertType<
+      Equal<
+        DecodedParams<URLPatternListParams, {id: typeof Number}>,
+        Record<string, unknown>
+      >
+    >();
+  });
+});
@@ -0,0 +1,117 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {parseFullURL} from '../../lib/parse-pattern.js';
+import {coversPattern} from '../../lib/shadowing.js';
+
+const covers = (
+  a: URLPatternInit,
+  b: URLPatternInit,
+  options: {aIgnoreCase?: boolean; bIgnoreCase?: boolean} = {},
+) => {
+  const aPattern = new URLPattern(a, {
+    ignoreCase: options.aIgnoreCase ?? false,
+  });
+  const bPattern = new URLPattern(b, {
+    ignoreCase: options.bIgnoreCase ?? false,
+  });
+  return coversPattern(
+    aPattern,
+    parseFullURL(aPattern, {ignoreCase: options.aIgnoreCase ?? false}),
+    bPattern,
+    parseFullURL(bPattern, {ignoreCase: options.bIgnoreCase ?? false}),
+  );
+};
+
+suite('shadowing', () => {
+  test('identical patterns cover each other', () => {
+    assert.strictEqual(covers({pathname: '/a/:id'}, {pathname: '/a/:x'}), true);
+    assert.strictEqual(
+      covers({pathname: '/a/(\\d+)'}, {pathname: '/a/(\\d+)'}),
+      true,
+    );
+  });
+
+  test('a param covers a fixed segment', () => {
+    assert.strictEqual(
+      covers({pathname: '/users/:id'}, {pathname: '/users/new'}),
+      true,
+    );
+    assert.strictEqual(
+      covers({pathname: '/users/new'}, {pathname: '/users/:id'}),
+      false,
+    );
+    assert.strictEqual(
+      covers({pathname: '/users/:id'}, {pathname: '/users/new/edit'}),
+      false,
+    );
+  });
+
+  test('a trailing wildcard covers the rest of the path', () => {
+    assert.strictEqual(
+      covers({pathname: '/files/*'}, {pathname: '/files/:name'}),
+      true,
+    );
+    assert.strictEqual(
+      covers({pathname: '/files/*'}, {pathname: '/files/a/b/:c*'}),
+      true,
+    );
+    assert.strictEqual(
+      covers({pathname: '/files/*'}, {pathname: '/files'}),
+      false,
+    );
+    assert.strictEqual(
+      covers({pathname: '/files/*'}, {pathname: '/files/:name?'}),
+      false,
+    );
+    assert.strictEqual(
+      covers({pathname: '*'}, {pathname: '/anything/:x'}),
+      true,
+    );
+  });
+
+  test('an optional part covers its absence', () => {
+    assert.strictEqual(covers({pathname: '/a/:id?'}, {pathname: '/a'}), true);
+    assert.strictEqual(covers({pathname: '/a/:id?'}, {pathname: '/a/b'}), true);
+    assert.strictEqual(covers({pathname: '/a/:id'}, {pathname: '/a'}), false);
+  });
+
+  test('does not compare different regexes', () => {
+    assert.strictEqual(
+      covers({pathname: '/a/(\\w+)'}, {pathname: '/a/(\\d+)'}),
+      false,
+    );
+    assert.strictEqual(
+      covers({pathname: '/a/:id'}, {pathname: '/a/(\\d+)'}),
+      false,
+    );
+  });
+
+  test('compares every component', () => {
+    assert.strictEqual(
+      covers({pathname: '/a'}, {protocol: 'https', pathname: '/a'}),
+      true,
+    );
+    assert.strictEqual(
+      covers({protocol: 'https', pathname: '/a'}, {pathname: '/a'}),
+      false,
+    );
+    assert.strictEqual(
+      covers(
+        {hostname: ':sub.example.com', pathname: '/a'},
+        {hostname: 'www.example.com', pathname: '/a'},
+      ),
+      false,
+    );
+  });
+
+  test('a case-insensitive pattern covers a case-sensitive one', () => {
+    assert.strictEqual(
+      covers({pathname: '/About'}, {pathname: '/about'}, {aIgnoreCase: true}),
+      true,
+    );
+    assert.strictEqual(
+      covers({pathname: '/about'}, {pathname: '/about'}, {bIgnoreCase: true}),
+      false,
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {parseFullURL} from '../../lib/parse-pattern.js';
+import {compareSpecificity, getSpecificity} from '../../lib/specificity.js';
+
+const specificityOf = (init: URLPatternInit) => {
+  const pattern = new URLPattern(init);
+  return getSpecificity(pattern, parseFullURL(pattern));
+};
+
+/**
+ * Sort patterns from most to least specific.
+ */
+const sortBySpecificity = (pathnames: Array<string>) =>
+  pathnames
+    .map((pathname) => ({pathname, specificity: specificityOf({pathname})}))
+    .sort((a, b) => compareSpecificity(a.specificity, b.specificity))
+    .map(({pathname}) => pathname);
+
+suite('specificity', () => {
+  test('ranks fixed, then params, then regexes, then wildcards', () => {
+    assert.deepStrictEqual(
+      sortBySpecificity([
+        '/users/*',
+        '/users/(\\d+)',
+        '/users/:id',
+        '/users/new',
+      ]),
+      ['/users/new', '/users/:id', '/users/(\\d+)', '/users/*'],
+    );
+  });
+
+  test('ranks modifiers below plain parts of the same type', () => {
+    assert.deepStrictEqual(
+      sortBySpecificity(['/a/:id*', '/a/:id+', '/a/:id?', '/a/:id']),
+      ['/a/:id', '/a/:id?', '/a/:id+', '/a/:id*'],
+    );
+  });
+
+  test('compares parts in order', () => {
+    assert.deepStrictEqual(
+      sortBySpecificity(['/:a/b', '/a/:b', '/a/b/*', '/a/*']),
+      ['/a/b/*', '/a/:b', '/a/*', '/:a/b'],
+    );
+  });
+
+  test('ranks fixed text above params that start at the same position', () => {
+    assert.deepStrictEqual(sortBySpecificity(['/post-:id', '/post-latest']), [
+      '/post-latest',
+      '/post-:id',
+    ]);
+    assert.deepStrictEqual(
+      sortBySpecificity(['/files/:name.txt', '/files/readme.txt']),
+      ['/files/readme.txt', '/files/:name.txt'],
+    );
+  });
+
+  test('ranks longer patterns first when one is a prefix of another', () => {
+    assert.ok(
+      compareSpecificity(
+        specificityOf({pathname: '/a/b'}),
+        specificityOf({pathname: '/a'}),
+      ) < 0,
+    );
+  });
+
+  test('ranks patterns above longer ones whose tails can be empty', () => {
+    assert.deepStrictEqual(
+      sortBySpecificity(['/a*', '/a/:b?', '/a{/b}?', '/a']),
+      ['/a', '/a{/b}?', '/a/:b?', '/a*'],
+    );
+    assert.deepStrictEqual(sortBySpecificity(['/a/:b*', '/a']), [
+      '/a',
+      '/a/:b*',
+    ]);
+  });
+
+  test('compares components in URL order', () => {
+    assert.ok(
+      compareSpecificity(
+        specificityOf({hostname: 'example.com', pathname: '/*'}),
+        specificityOf({pathname: '/users'}),
+      ) < 0,
+    );
+    assert.strictEqual(
+      compareSpecificity(
+        specificityOf({pathname: '/a/:id'}),
+        specificityOf({pathname: '/a/:other'}),
+      ),
+      0,
+    );
+  });
+
+  test('ranks empty components before wildcard components', () => {
+    assert.ok(
+      compareSpecificity(
+        specificityOf({port: '', pathname: '/*'}),
+        specificityOf({pathname: '/*'}),
+      ) < 0,
+    );
+    assert.ok(
+      compareSpecificity(
+        specificityOf({port: '', pathname: '/*'}),
+        specificityOf({port: ':port?', pathname: '/*'}),
+      ) < 0,
+    );
+  });
+});
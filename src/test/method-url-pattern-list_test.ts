@@ -0,0 +1,123 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {
+  MethodURLPatternList,
+  normalizeMethod,
+} from '../method-url-pattern-list.js';
+
+const createList = () => {
+  const list = new MethodURLPatternList<string>();
+  list.addPattern('GET', {pathname: '/users/:id'}, 'getUser');
+  list.addPattern(['PUT', 'PATCH'], {pathname: '/users/:id'}, 'updateUser');
+  list.addPattern('DELETE', {pathname: '/users/:id(\\d+)'}, 'deleteUser');
+  list.addPattern(['GET', 'POST'], {pathname: '/users'}, 'users');
+  return list;
+};
+
+suite('MethodURLPatternList', () => {
+  test('matches by method and URL', () => {
+    const list = createList();
+
+    const get = list.match('GET', 'http://example.com/users/1');
+    assert.strictEqual(get?.value, 'getUser');
+    assert.deepStrictEqual(get?.result.pathname.groups, {id: '1'});
+    assert.strictEqual(
+      list.match('PATCH', 'http://example.com/users/1')?.value,
+      'updateUser',
+    );
+    assert.strictEqual(
+      list.match('DELETE', 'http://example.com/users/1')?.value,
+      'deleteUser',
+    );
+    assert.strictEqual(
+      list.match('POST', '/users', 'http://example.com')?.value,
+      'users',
+    );
+    assert.strictEqual(
+      list.match('POST', {pathname: '/users'})?.value,
+      'users',
+    );
+  });
+
+  test('returns null for URLs that only match other methods', () => {
+    const list = createList();
+
+    assert.strictEqual(list.match('POST', 'http://example.com/users/1'), null);
+    assert.strictEqual(
+      list.match('DELETE', 'http://example.com/users/a'),
+      null,
+    );
+    assert.strictEqual(list.match('GET', 'http://example.com/other'), null);
+  });
+
+  test('matches patterns for the same method in order', () => {
+    const list = new MethodURLPatternList<string>();
+    list.addPattern('POST', {pathname: '/*'}, 'post');
+    list.addPattern('GET', {pathname: '/a'}, 'a');
+    list.addPattern('GET', {pathname: '/*'}, 'fallback');
+
+    assert.strictEqual(list.match('GET', {pathname: '/a'})?.value, 'a');
+    assert.strictEqual(list.match('GET', {pathname: '/b'})?.value, 'fallback');
+  });
+
+  test('reports the allowed methods of a URL', () => {
+    const list = createList();
+
+    assert.deepStrictEqual(list.allowedMethods('http://example.com/users/1'), [
+      'DELETE',
+      'GET',
+      'PATCH',
+      'PUT',
+    ]);
+    assert.deepStrictEqual(list.allowedMethods('http://example.com/users/a'), [
+      'GET',
+      'PATCH',
+      'PUT',
+    ]);
+    assert.deepStrictEqual(list.allowedMethods({pathname: '/users'}), [
+      'GET',
+      'POST',
+    ]);
+    assert.deepStrictEqual(list.allowedMethods('http://example.com/other'), []);
+  });
+
+  test('normalizes methods like Request does', () => {
+    const list = new MethodURLPatternList<string>();
+    list.addPattern('get', {pathname: '/a'}, 'get');
+    list.addPattern('Purge', {pathname: '/a'}, 'purge');
+
+    assert.strictEqual(list.match('GET', {pathname: '/a'})?.value, 'get');
+    assert.strictEqual(list.match('Get', {pathname: '/a'})?.value, 'get');
+    assert.strictEqual(list.match('Purge', {pathname: '/a'})?.value, 'purge');
+    assert.strictEqual(list.match('PURGE', {pathname: '/a'}), null);
+    assert.deepStrictEqual(list.allowedMethods({pathname: '/a'}), [
+      'GET',
+      'Purge',
+    ]);
+    for (const method of ['get', 'patch', 'Purge', 'delete']) {
+      assert.strictEqual(
+        normalizeMethod(method),
+        new Request('http://example.com', {method}).method,
+      );
+    }
+  });
+
+  test('throws for invalid methods', () => {
+    const list = new MethodURLPatternList<string>();
+
+    assert.throws(() => normalizeMethod(''), TypeError);
+    assert.throws(() => normalizeMethod('GET /'), TypeError);
+    assert.throws(() => list.addPattern([], {pathname: '/a'}, 'a'), TypeError);
+    assert.throws(() => list.match('G:T', {pathname: '/a'}), TypeError);
+  });
+
+  test('removes patterns for all of their methods', () => {
+    const list = createList();
+    const item = list.addPattern(['GET', 'HEAD'], {pathname: '/a'}, 'a');
+
+    assert.strictEqual(list.removePattern(item), true);
+    assert.strictEqual(list.match('HEAD', {pathname: '/a'}), null);
+    assert.deepStrictEqual(list.allowedMethods({pathname: '/a'}), []);
+    assert.strictEqual(list.removePattern(item), false);
+  });
+});
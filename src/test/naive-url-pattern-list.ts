@@ -10,10 +10,18 @@
  * URLPatternList produces identical results while providing better performance.
  */
 import type {URLPatternListItem, URLPatternListMatch} from '../index.js';
+import {getNamedGroups} from '../lib/params.js';
 
 export interface URLPatternListLike<T> {
   addPattern(pattern: URLPattern, value: T): void;
-  match(url: string, baseUrl?: string): URLPatternListMatch<T> | null;
+  match(
+    url: string | URLPatternInit,
+    baseUrl?: string,
+  ): URLPatternListMatch<T> | null;
+  matchAll(
+    url: string | URLPatternInit,
+    baseUrl?: string,
+  ): Iterable<URLPatternListMatch<T>>;
 }
 
 /**
@@ -34,7 +42,10 @@ export class NaiveURLPatternList<T> implements URLPatternListLike<T> {
    * Match a path against the patterns using linear search.
    * Returns the first pattern that matches (preserving order).
    */
-  match(url: string, baseUrl?: string): URLPatternListMatch<T> | null {
+  match(
+    url: string | URLPatternInit,
+    baseUrl?: string,
+  ): URLPatternListMatch<T> | null {
     for (const item of this.#patterns) {
       const matches = baseUrl
         ? item.pattern.test(url, baseUrl)
@@ -44,10 +55,28 @@ export class NaiveURLPatternList<T> implements URLPatternListLike<T> {
           ? item.pattern.exec(url, baseUrl)
           : item.pattern.exec(url);
         if (result !== null) {
-          return {result, value: item.value};
+          return {result, value: item.value, params: getNamedGroups(result)};
         }
       }
     }
     return null;
   }
+
+  /**
+   * Match a path against the patterns using linear search.
+   * Yields every pattern that matches, in the order they were added.
+   */
+  *matchAll(
+    url: string | URLPatternInit,
+    baseUrl?: string,
+  ): Iterable<URLPatternListMatch<T>> {
+    for (const item of this.#patterns) {
+      const result = baseUrl
+        ? item.pattern.exec(url, baseUrl)
+        : item.pattern.exec(url);
+      if (result !== null) {
+        yield {result, value: item.value, params: getNamedGroups(result)};
+      }
+    }
+  }
 }
@@ -0,0 +1,261 @@
+import {describe as suite, test} from 'node:test';
+import * as assert from 'node:assert';
+import {createServer, type IncomingMessage} from 'node:http';
+import type {AddressInfo} from 'node:net';
+import {URLPatternList} from '../index.js';
+import {
+  addRoute,
+  createRequestListener,
+  getRequestURL,
+  type NodeRequestListenerOptions,
+  type NodeRouteHandler,
+} from '../node-router.js';
+
+/**
+ * Start a server for a list on an ephemeral port, run `fn` with its origin,
+ * and close the server.
+ */
+const withServer = async (
+  list: URLPatternList<NodeRouteHandler>,
+  fn: (origin: string) => Promise<void>,
+  options?: NodeRequestListenerOptions,
+) => {
+  const server = createServer(createRequestListener(list, options));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const {port} = server.address() as AddressInfo;
+  try {
+    await fn(`http://127.0.0.1:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+const fakeRequest = (
+  url: string | undefined,
+  headers: IncomingMessage['headers'],
+  encrypted = false,
+) => ({url, headers, socket: encrypted ? {encrypted} : {}}) as IncomingMessage;
+
+suite('getRequestURL', () => {
+  test('builds the URL from the Host header and path', () => {
+    assert.strictEqual(
+      getRequestURL(fakeRequest('/a/b?c=d', {host: 'example.com:8080'}))?.href,
+      'http://example.com:8080/a/b?c=d',
+    );
+    assert.strictEqual(
+      getRequestURL(fakeRequest('//a', {host: 'Example.com'}))?.href,
+      'http://example.com//a',
+    );
+  });
+
+  test('uses https for encrypted connections', () => {
+    assert.strictEqual(
+      getRequestURL(fakeRequest('/', {host: 'example.com'}, true))?.href,
+      'https://example.com/',
+    );
+  });
+
+  test('uses the :authority of HTTP/2 requests', () => {
+    assert.strictEqual(
+      getRequestURL(fakeRequest('/', {':authority': 'example.com'}, true))
+        ?.href,
+      'https://example.com/',
+    );
+  });
+
+  test('returns null for requests without a valid URL', () => {
+    assert.strictEqual(getRequestURL(fakeRequest('/', {})), null);
+    assert.strictEqual(getRequestURL(fakeRequest('/', {host: ''})), null);
+    assert.strictEqual(getRequestURL(fakeRequest('/', {host: 'a/b'})), null);
+    assert.strictEqual(getRequestURL(fakeRequest('/', {host: 'u@a'})), null);
+    assert.strictEqual(getRequestURL(fakeRequest('/', {host: 'a:x'})), null);
+    assert.strictEqual(
+      getRequestURL(fakeRequest('*', {host: 'example.com'})),
+      null,
+    );
+    assert.strictEqual(
+      getRequestURL(fakeRequest(undefined, {host: 'example.com'})),
+      null,
+    );
+  });
+});
+
+suite('createRequestListener', () => {
+  const createList = () => {
+    const list = new URLPatternList<NodeRouteHandler>();
+    list.addPattern({pathname: '/users/:id'}, (req, res, {params, result}) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          method: req.method,
+          params,
+          hostname: result.hostname.input,
+        }),
+      );
+    });
+    list.addPattern({pathname: '/async'}, async (_req, res) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      res.end('async');
+    });
+    return list;
+  };
+
+  test('calls the handler of the matching pattern', async () => {
+    await withServer(createList(), async (origin) => {
+      const response = await fetch(`${origin}/users/1`, {method: 'PUT'});
+
+      assert.strictEqual(response.status, 200);
+      assert.deepStrictEqual(await response.json(), {
+        method: 'PUT',
+        params: {id: '1'},
+        hostname: '127.0.0.1',
+      });
+      assert.strictEqual(
+        await (await fetch(`${origin}/async`)).text(),
+        'async',
+      );
+    });
+  });
+
+  test('returns 404 for URLs that no pattern matches', async () => {
+    await withServer(createList(), async (origin) => {
+      const response = await fetch(`${origin}/other`);
+
+      assert.strictEqual(response.status, 404);
+      assert.strictEqual(await response.text(), 'Not Found');
+    });
+  });
+
+  test('adds routes with params typed by addRoute()', async () => {
+    const list = new URLPatternList<NodeRouteHandler>();
+    addRoute(list, {pathname: '/files/:dir/:name?'}, (_req, res, {params}) => {
+      const dir: string = params.dir;
+      // @ts-expect-error name is optional
+      const name: string = params.name;
+      res.end(`${dir} ${name}`);
+    });
+
+    await withServer(list, async (origin) => {
+      assert.strictEqual(
+        await (await fetch(`${origin}/files/a/b`)).text(),
+        'a b',
+      );
+      assert.strictEqual(
+        await (await fetch(`${origin}/files/a`)).text(),
+        'a undefined',
+      );
+    });
+  });
+
+  test('decodes params with the params option of addRoute()', async () => {
+    const list = new URLPatternList<NodeRouteHandler>();
+    addRoute(
+      list,
+      {pathname: '/pages/:n'},
+      (_req, res, {params}) => {
+        const n: bigint = params.n;
+        res.end(`page ${n + 1n}`);
+      },
+      {params: {n: BigInt}},
+    );
+
+    await withServer(list, async (origin) => {
+      assert.strictEqual(
+        await (await fetch(`${origin}/pages/1`)).text(),
+        'page 2',
+      );
+      assert.strictEqual((await fetch(`${origin}/pages/x`)).status, 404);
+    });
+  });
+
+  test('responds with 500 when a handler throws or rejects', async () => {
+    const list = new URLPatternList<NodeRouteHandler>();
+    list.addPattern({pathname: '/throws'}, () => {
+      throw new Error('throws');
+    });
+    list.addPattern({pathname: '/rejects'}, async () => {
+      throw new Error('rejects');
+    });
+
+    await withServer(list, async (origin) => {
+      for (const path of ['/throws', '/rejects']) {
+        const response = await fetch(`${origin}${path}`);
+
+        assert.strictEqual(response.status, 500, path);
+        assert.strictEqual(await response.text(), 'Internal Server Error');
+      }
+    });
+  });
+
+  test('passes handler errors to a custom onError handler', async () => {
+    const list = new URLPatternList<NodeRouteHandler>();
+    list.addPattern({pathname: '/throws'}, () => {
+      throw new Error('oops');
+    });
+
+    await withServer(
+      list,
+      async (origin) => {
+        const response = await fetch(`${origin}/throws`);
+
+        assert.strictEqual(response.status, 503);
+        assert.strictEqual(await response.text(), 'oops');
+      },
+      {
+        onError: (error, _req, res) => {
+          res.statusCode = 503;
+          res.end((error as Error).message);
+        },
+      },
+    );
+  });
+
+  test('falls back to the default handling when onError throws', async () => {
+    const list = new URLPatternList<NodeRouteHandler>();
+    list.addPattern({pathname: '/throws'}, () => {
+      throw new Error('oops');
+    });
+    list.addPattern({pathname: '/sent'}, (_req, res) => {
+      res.writeHead(200);
+      res.write('partial');
+      throw new Error('oops');
+    });
+
+    await withServer(
+      list,
+      async (origin) => {
+        const response = await fetch(`${origin}/throws`);
+
+        assert.strictEqual(response.status, 500);
+        assert.strictEqual(await response.text(), 'Internal Server Error');
+
+        await assert.rejects(async () => {
+          await (await fetch(`${origin}/sent`)).text();
+        });
+      },
+      {
+        onError: async () => {
+          throw new Error('onError');
+        },
+      },
+    );
+  });
+
+  test('uses a custom notFound handler', async () => {
+    await withServer(
+      createList(),
+      async (origin) => {
+        const response = await fetch(`${origin}/other`);
+
+        assert.strictEqual(response.status, 410);
+      },
+      {
+        notFound: (_req, res) => {
+          res.statusCode = 410;
+          res.end();
+        },
+      },
+    );
+  });
+});
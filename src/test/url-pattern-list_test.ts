@@ -1,5 +1,14 @@
 import {describe as suite, test} from 'node:test';
-import {URLPatternList, type URLPatternListMatch} from '../index.js';
+import {
+  type PrefixTreeNode,
+  URLPatternList,
+  type URLPatternListEntry,
+  type URLPatternListItem,
+  type URLPatternListItemParams,
+  type URLPatternListMatch,
+  type URLPatternListOptions,
+  type URLPatternListTraceNode,
+} from '../index.js';
 import {
   NaiveURLPatternList,
   type URLPatternListLike,
@@ -15,6 +24,64 @@ const implementations: Array<{
     name: 'URLPatternList (optimized)',
     create: <T>() => new URLPatternList<T>(),
   },
+  {
+    name: 'URLPatternList (compiled)',
+    create: <T>() => {
+      const list = new URLPatternList<T>();
+      list.compile();
+      return list;
+    },
+  },
+  {
+    name: 'URLPatternList (optimized after each add)',
+    create: <T>() => {
+      const list = new URLPatternList<T>();
+      return {
+        addPattern(pattern: URLPattern, value: T) {
+          list.addPattern(pattern, value);
+          list.optimize();
+        },
+        match: (url: string | URLPatternInit, baseUrl?: string) =>
+          list.match(url, baseUrl),
+        matchAll: (url: string | URLPatternInit, baseUrl?: string) =>
+          list.matchAll(url, baseUrl),
+      };
+    },
+  },
+  {
+    name: 'URLPatternList (captureGroups)',
+    create: <T>() => new URLPatternList<T>({captureGroups: true}),
+  },
+  {
+    name: 'URLPatternList (compiled, captureGroups)',
+    create: <T>() => {
+      const list = new URLPatternList<T>({captureGroups: true});
+      list.compile();
+      return list;
+    },
+  },
+  {
+    name: 'URLPatternList (from)',
+    create: <T>() => {
+      const entries: Array<URLPatternListEntry<T>> = [];
+      let list: URLPatternList<T> | undefined;
+      const getList = () => (list ??= URLPatternList.from(entries));
+      return {
+        addPattern(pattern: URLPattern, value: T) {
+          entries.push([pattern, value]);
+          list = undefined;
+        },
+        match: (url: string | URLPatternInit, baseUrl?: string) =>
+          getList().match(url, baseUrl),
+        matchAll: (url: string | URLPatternInit, baseUrl?: string) =>
+          getList().matchAll(url, baseUrl),
+      };
+    },
+  },
+  {
+    name: 'URLPatternList (cached)',
+    create: <T>() => new URLPatternList<T>({cacheSize: 4}),
+  },
   {
     name: 'NaiveURLPatternList (linear)',
     create: <T>() => new NaiveURLPatternList<T>(),
@@ -210,6 +277,48 @@ suite('URLPatternList implementations', () => {
         assertURLPatternBehavior('/books/{:id}?', '/books/');
       });
 
+      test('matches URLPatternInit inputs like URLPattern', () => {
+        const patterns = [
+          new URLPattern({pathname: '/users/:id'}),
+          new URLPattern({pathname: '/files/*', search: 'v=:v'}),
+          new URLPattern('https://:sub.example.com/docs/:page'),
+          new URLPattern({hostname: 'example.com'}),
+        ];
+        const inputs: Array<URLPatternInit> = [
+          {pathname: '/users/1'},
+          {pathname: '/files/a/b', search: '?v=2'},
+          {pathname: '/files/a b', search: 'v=2'},
+          {
+            protocol: 'HTTPS:',
+            hostname: 'API.example.com',
+            pathname: '/docs/intro',
+          },
+          {pathname: 'docs/intro', baseURL: 'https://www.example.com/'},
+          {hostname: 'example.com', pathname: '/users/2'},
+          {pathname: '/other'},
+          {hostname: 'a b'},
+          {},
+        ];
+        const list = impl.create<number>();
+        const naive = new NaiveURLPatternList<number>();
+        for (const [i, pattern] of patterns.entries()) {
+          list.addPattern(pattern, i);
+          naive.addPattern(pattern, i);
+        }
+        for (const input of inputs) {
+          assert.deepStrictEqual(
+            list.match(input),
+            naive.match(input),
+            JSON.stringify(input),
+          );
+          assert.deepStrictEqual(
+            [...list.matchAll(input)],
+            [...naive.matchAll(input)],
+            JSON.stringify(input),
+          );
+        }
+      });
+
       test('matches the behavior of URLPattern for search and hash', () => {
         assertURLPatternBehavior(
           {
@@ -1279,6 +1388,37 @@ suite('URLPatternList implementations', () => {
         assert.strictEqual(match?.value, 'api-fallback');
       });
 
+      test('matchAll() yields every matching pattern in order', () => {
+        const list = impl.create<string>();
+        list.addPattern(new URLPattern({pathname: '/api/*'}), 'api');
+        list.addPattern(new URLPattern({pathname: '/api/users'}), 'users');
+        list.addPattern(new URLPattern({pathname: '/posts/:id'}), 'post');
+        list.addPattern(new URLPattern({pathname: '/api/:resource'}), 'res');
+        list.addPattern(new URLPattern({pathname: '/*'}), 'all');
+
+        const matches = [...list.matchAll('/api/users', 'http://example.com')];
+        assert.deepStrictEqual(
+          matches.map((m) => m.value),
+          ['api', 'users', 'res', 'all'],
+        );
+        assert.deepStrictEqual(matches[2].result.pathname.groups, {
+          resource: 'users',
+        });
+
+        assert.deepStrictEqual(
+          [...list.matchAll('/other', 'http://example.com')].map(
+            (m) => m.value,
+          ),
+          ['all'],
+        );
+        assert.deepStrictEqual(
+          [...list.matchAll('http://example.com/api/users?x#y')].map(
+            (m) => m.value,
+          ),
+          ['api', 'users', 'res', 'all'],
+        );
+      });
+
       suite('match() - Full URL Pattern Matching', () => {
         test('matches protocol-specific patterns', () => {
           const list = impl.create<string>();
@@ -1636,3 +1776,2220 @@ suite('URLPatternList implementations', () => {
     });
   }
 });
+
+suite('URLPatternList', () => {
+  /**
+   * Asserts that `list` matches each of `paths` the same way as a
+   * NaiveURLPatternList containing only `expectedPatterns`.
+   */
+  const assertSameMatches = <T>(
+    list: URLPatternList<T>,
+    expectedPatterns: Array<[string, T]>,
+    paths: Array<string>,
+  ) => {
+    const naive = new NaiveURLPatternList<T>();
+    for (const [pathname, value] of expectedPatterns) {
+      naive.addPattern(new URLPattern({pathname}), value);
+    }
+    for (const path of paths) {
+      const url = new URL(path, 'http://example.com').toString();
+      assert.deepStrictEqual(list.match(url), naive.match(url), path);
+    }
+  };
+
+  suite('removePattern()', () => {
+    test('removes a pattern so it no longer matches', () => {
+      const list = new URLPatternList<string>();
+      const handle = list.addPattern(
+        new URLPattern({pathname: '/users/:id'}),
+        'user',
+      );
+      list.addPattern(new URLPattern({pathname: '/users/*'}), 'users');
+
+      assert.strictEqual(
+        list.match('/users/1', 'http://example.com')?.value,
+        'user',
+      );
+      assert.strictEqual(list.removePattern(handle), true);
+      assert.strictEqual(
+        list.match('/users/1', 'http://example.com')?.value,
+        'users',
+      );
+    });
+
+    test('returns false for a pattern that is not in the list', () => {
+      const list = new URLPatternList<string>();
+      const handle = list.addPattern(new URLPattern({pathname: '/a'}), 'a');
+      assert.strictEqual(list.removePattern(handle), true);
+      assert.strictEqual(list.removePattern(handle), false);
+
+      const other = new URLPatternList<string>();
+      const otherHandle = other.addPattern(
+        new URLPattern({pathname: '/a'}),
+        'a',
+      );
+      list.addPattern(new URLPattern({pathname: '/a'}), 'a');
+      assert.strictEqual(list.removePattern(otherHandle), false);
+    });
+
+    test('prunes nodes that no longer lead to patterns', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/api/users'}), 'users');
+      const handle = list.addPattern(
+        new URLPattern({pathname: '/api/posts/:id'}),
+        'post',
+      );
+
+      list.removePattern(handle);
+
+      const root = list._treeRoot;
+      assert.strictEqual(root.children.length, 1);
+      const api = root.children[0];
+      assert.strictEqual(api.children.length, 1);
+      assert.strictEqual(api.children[0].patterns[0].value, 'users');
+
+      list.removeValue('users');
+      assert.strictEqual(root.children.length, 0);
+      assert.strictEqual(root.minSequence, Number.MAX_SAFE_INTEGER);
+    });
+
+    test('recomputes minSequence so earlier patterns are not pruned', () => {
+      const list = new URLPatternList<string>();
+      const first = list.addPattern(
+        new URLPattern({pathname: '/items/:id'}),
+        'first',
+      );
+      list.addPattern(new URLPattern({pathname: '/items/special'}), 'second');
+      list.addPattern(new URLPattern({pathname: '/items/*'}), 'third');
+
+      list.removePattern(first);
+      assert.strictEqual(list._treeRoot.minSequence, 1);
+
+      assertSameMatches(
+        list,
+        [
+          ['/items/special', 'second'],
+          ['/items/*', 'third'],
+        ],
+        ['/items/special', '/items/123', '/items/a/b', '/items'],
+      );
+    });
+  });
+
+  suite('matchAll()', () => {
+    test('matches the same patterns as a linear scan', () => {
+      const pathnames = [
+        '/books/:id',
+        '/books/*',
+        '/books/:id/reviews',
+        '/books/new',
+        '/:section/:id',
+        '/books{/}?',
+        '/*',
+        '/books/(\\d+)',
+        '/books/:id+',
+      ];
+      const list = new URLPatternList<number>();
+      const naive = new NaiveURLPatternList<number>();
+      pathnames.forEach((pathname, i) => {
+        list.addPattern(new URLPattern({pathname}), i);
+        naive.addPattern(new URLPattern({pathname}), i);
+      });
+
+      for (const path of [
+        '/books/123',
+        '/books/new',
+        '/books/123/reviews',
+        '/books',
+        '/books/',
+        '/authors/1',
+        '/',
+      ]) {
+        const url = `http://example.com${path}`;
+        assert.deepStrictEqual(
+          [...list.matchAll(url)],
+          [...naive.matchAll(url)],
+        );
+      }
+    });
+
+    test('can be stopped early', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a'}), 'first');
+      list.addPattern(new URLPattern({pathname: '/*'}), 'second');
+
+      const iterator = list.matchAll('http://example.com/a');
+      assert.strictEqual(iterator.next().value?.value, 'first');
+      assert.strictEqual(iterator.return().done, true);
+    });
+
+    test('skips subtrees whose patterns all come before the previous match', () => {
+      for (const compile of [false, true]) {
+        const list = new URLPatternList<string>();
+        const user = list.addPattern({pathname: '/users/:id'}, 'user');
+        list.addPattern({pathname: '/*'}, 'all');
+        if (compile) {
+          list.compile();
+        }
+        const findNode = (
+          node: PrefixTreeNode<string>,
+        ): PrefixTreeNode<string> | undefined =>
+          node.patterns.includes(user)
+            ? node
+            : node.children.map(findNode).find((found) => found !== undefined);
+        const node = findNode(list._treeRoot)!;
+        assert.strictEqual(node.maxSequence, 0);
+        const match = node.match.bind(node);
+        let calls = 0;
+        node.match = (...args) => {
+          calls++;
+          return match(...args);
+        };
+
+        assert.deepStrictEqual(
+          [...list.matchAll('http://example.com/users/1')].map(
+            ({value}) => value,
+          ),
+          ['user', 'all'],
+        );
+        assert.strictEqual(calls, 1);
+      }
+    });
+  });
+
+  suite('serialize() and fromJSON()', () => {
+    const patterns: Array<URLPatternInit> = [
+      {pathname: '/users/:id'},
+      {pathname: '/users/:id(\\d+)/posts'},
+      {pathname: '/files/*'},
+      {pathname: '/book{s}?/:id?'},
+      {protocol: 'https', hostname: ':sub.example.com', pathname: '/'},
+      {pathname: '/search', search: 'q=:query'},
+      {pathname: '/docs/:page+', hash: 'section-:section'},
+    ];
+    const urls = [
+      'http://example.com/users/123',
+      'http://example.com/users/123/posts',
+      'http://example.com/users/abc/posts',
+      'http://example.com/files/a/b.txt',
+      'http://example.com/books/1',
+      'http://example.com/book',
+      'https://api.example.com/',
+      'http://example.com/search?q=test',
+      'http://example.com/docs/a/b#section-c',
+      'http://example.com/none',
+    ];
+
+    test('restores a list that matches the same URLs', () => {
+      const list = new URLPatternList<number>();
+      patterns.forEach((init, i) => list.addPattern(new URLPattern(init), i));
+
+      const restored = URLPatternList.fromJSON<number>(
+        JSON.parse(JSON.stringify(list)),
+      );
+
+      assert.deepStrictEqual(restored.serialize(), list.serialize());
+      for (const url of urls) {
+        assert.deepStrictEqual(restored.match(url), list.match(url), url);
+        assert.deepStrictEqual(
+          [...restored.matchAll(url)],
+          [...list.matchAll(url)],
+          url,
+        );
+      }
+    });
+
+    test('encodes and decodes values with a codec', () => {
+      const handlers = new Map([
+        ['user', () => 'user'],
+        ['files', () => 'files'],
+      ]);
+      const codec = {
+        encode: (handler: () => string) => handler(),
+        decode: (name: unknown) => handlers.get(name as string)!,
+      };
+      const list = new URLPatternList<() => string>();
+      list.addPattern(
+        new URLPattern({pathname: '/users/:id'}),
+        handlers.get('user')!,
+      );
+      list.addPattern(
+        new URLPattern({pathname: '/files/*'}),
+        handlers.get('files')!,
+      );
+
+      const serialized = list.serialize(codec);
+      assert.deepStrictEqual(
+        serialized.root.children.map((c) => c.children[0].patterns[0].value),
+        ['user', 'files'],
+      );
+
+      const restored = URLPatternList.fromJSON(
+        JSON.parse(JSON.stringify(serialized)),
+        codec,
+      );
+      assert.strictEqual(
+        restored.match('http://example.com/files/a')?.value,
+        handlers.get('files'),
+      );
+    });
+
+    test('restored lists continue the sequence for new patterns', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'first');
+      const restored = URLPatternList.fromJSON<string>(list.toJSON());
+
+      const handle = restored.addPattern(
+        new URLPattern({pathname: '/a/b'}),
+        'second',
+      );
+      assert.strictEqual(handle.sequence, 1);
+      assert.strictEqual(
+        restored.match('http://example.com/a/b')?.value,
+        'first',
+      );
+      assert.strictEqual(restored.removeValue('first'), 1);
+      assert.strictEqual(
+        restored.match('http://example.com/a/b')?.value,
+        'second',
+      );
+    });
+
+    test('rejects unknown versions', () => {
+      assert.throws(
+        () =>
+          URLPatternList.fromJSON({
+            ...new URLPatternList().toJSON(),
+            version: 2 as 1,
+          }),
+        TypeError,
+      );
+    });
+
+    test('restores a list with options', () => {
+      const list = new URLPatternList<number>({order: 'specificity'});
+      patterns.forEach((init, i) => list.addPattern(init, i));
+      const mounted = new URLPatternList<number>();
+      mounted.addPattern({pathname: '/:id'}, -1);
+      list.mount({pathname: '/mounted'}, mounted);
+
+      const restored = URLPatternList.fromJSON<number>(
+        list.serialize(),
+        undefined,
+        {cacheSize: 4, captureGroups: true},
+      );
+
+      assert.strictEqual(restored.order, 'specificity');
+      assert.strictEqual(restored.cacheStats.capacity, 4);
+      for (const url of [...urls, 'http://example.com/mounted/1']) {
+        assert.deepStrictEqual(restored.match(url), list.match(url), url);
+      }
+      assert.strictEqual(restored.cacheStats.size, 4);
+      assert.throws(
+        () =>
+          URLPatternList.fromJSON(list.serialize(), undefined, {
+            order: 'insertion',
+          }),
+        TypeError,
+      );
+    });
+  });
+
+  suite('ignoreCase', () => {
+    test('matches the same patterns as a linear scan', () => {
+      const patterns: Array<[URLPatternInit, boolean]> = [
+        [{pathname: '/Users/:id'}, true],
+        [{pathname: '/users/admin'}, false],
+        [{pathname: '/API/*'}, true],
+        [{pathname: '/files/:name.PDF'}, true],
+        [{pathname: '/(Foo|bar)/x'}, true],
+        [{pathname: '/post/:id{-Draft}?'}, true],
+        [{pathname: '/:section/:id'}, false],
+        [{pathname: '/docs', hash: 'Section-:id'}, true],
+      ];
+      const list = new URLPatternList<number>();
+      const naive = new NaiveURLPatternList<number>();
+      patterns.forEach(([init, ignoreCase], i) => {
+        const pattern = new URLPattern(init, {ignoreCase});
+        list.addPattern(pattern, i, {ignoreCase});
+        naive.addPattern(pattern, i);
+      });
+
+      for (const path of [
+        '/users/1',
+        '/USERS/1',
+        '/users/ADMIN',
+        '/Users/admin',
+        '/api/x',
+        '/Api/x/y',
+        '/files/a.pdf',
+        '/FILES/b.PDF',
+        '/foo/x',
+        '/FOO/x',
+        '/BAR/X',
+        '/Post/1-DRAFT',
+        '/post/1-draft',
+        '/docs#section-1',
+        '/DOCS#SECTION-2',
+      ]) {
+        const url = `http://example.com${path}`;
+        assert.deepStrictEqual(list.match(url), naive.match(url), path);
+        assert.deepStrictEqual(
+          [...list.matchAll(url)],
+          [...naive.matchAll(url)],
+          path,
+        );
+      }
+    });
+
+    test('keeps case-sensitive and case-insensitive patterns apart', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/About'}), 'exact');
+      list.addPattern(
+        new URLPattern({pathname: '/About'}, {ignoreCase: true}),
+        'any-case',
+        {ignoreCase: true},
+      );
+      list.addPattern(
+        new URLPattern({pathname: '/123'}, {ignoreCase: true}),
+        'digits',
+        {ignoreCase: true},
+      );
+      list.addPattern(new URLPattern({pathname: '/123'}), 'digits-exact');
+
+      assert.strictEqual(list._treeRoot.children.length, 3);
+      assert.strictEqual(
+        list.match('http://example.com/About')?.value,
+        'exact',
+      );
+      assert.strictEqual(
+        list.match('http://example.com/ABOUT')?.value,
+        'any-case',
+      );
+      assert.deepStrictEqual(
+        [...list.matchAll('http://example.com/123')].map((m) => m.value),
+        ['digits', 'digits-exact'],
+      );
+    });
+
+    test('survives serialization', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(
+        new URLPattern({pathname: '/About/:id(A\\d+)'}, {ignoreCase: true}),
+        'about',
+        {ignoreCase: true},
+      );
+      const restored = URLPatternList.fromJSON<string>(
+        JSON.parse(JSON.stringify(list)),
+      );
+      assert.strictEqual(
+        restored.match('http://example.com/ABOUT/a1')?.value,
+        'about',
+      );
+    });
+  });
+
+  suite('specificity order', () => {
+    test('matches the most specific pattern regardless of insertion order', () => {
+      // In specificity order
+      const pathnames = [
+        '/users/new',
+        '/users/:id/posts',
+        '/users/:id',
+        '/users/:id(\\d+)',
+        '/users/*',
+        '/:section/:id',
+        '/*',
+      ];
+      const naive = new NaiveURLPatternList<string>();
+      for (const pathname of pathnames) {
+        naive.addPattern(new URLPattern({pathname}), pathname);
+      }
+
+      const list = new URLPatternList<string>({order: 'specificity'});
+      for (const pathname of [...pathnames].reverse()) {
+        list.addPattern(new URLPattern({pathname}), pathname);
+      }
+
+      for (const path of [
+        '/users/new',
+        '/users/123',
+        '/users/123/posts',
+        '/users/123/posts/4',
+        '/posts/123',
+        '/',
+      ]) {
+        const url = `http://example.com${path}`;
+        assert.deepStrictEqual(list.match(url), naive.match(url), path);
+        assert.deepStrictEqual(
+          [...list.matchAll(url)],
+          [...naive.matchAll(url)],
+          path,
+        );
+      }
+    });
+
+    test('matches a fixed pattern before one with an optional tail', () => {
+      for (const compile of [false, true]) {
+        const list = new URLPatternList<string>({order: 'specificity'});
+        list.addPattern({pathname: '/a/:b?'}, 'optional');
+        list.addPattern({pathname: '/a'}, 'fixed');
+        if (compile) {
+          list.compile();
+        }
+
+        assert.strictEqual(list.match({pathname: '/a'})?.value, 'fixed');
+        assert.strictEqual(list.match({pathname: '/a/b'})?.value, 'optional');
+        assert.deepStrictEqual(
+          [...list.matchAll({pathname: '/a'})].map(({value}) => value),
+          ['fixed', 'optional'],
+        );
+      }
+    });
+
+    test('matches fixed text before a param in the same segment', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern({pathname: '/post-:id'}, 'param');
+      list.addPattern({pathname: '/post-latest'}, 'fixed');
+
+      assert.strictEqual(
+        list.match({pathname: '/post-latest'})?.value,
+        'fixed',
+      );
+      assert.strictEqual(list.match({pathname: '/post-1'})?.value, 'param');
+    });
+
+    test('keeps insertion order for patterns of equal specificity', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern(new URLPattern({pathname: '/books/*'}), 'wildcard');
+      list.addPattern(new URLPattern({pathname: '/books/:id'}), 'id');
+      list.addPattern(new URLPattern({pathname: '/books/:bookId'}), 'bookId');
+
+      assert.strictEqual(list.match('http://example.com/books/1')?.value, 'id');
+
+      list.addPattern(new URLPattern({pathname: '/books/:isbn'}), 'isbn');
+      list.addPattern(new URLPattern({pathname: '/books/1'}), 'one');
+      assert.deepStrictEqual(
+        [...list.matchAll('http://example.com/books/1')].map((m) => m.value),
+        ['one', 'id', 'bookId', 'isbn', 'wildcard'],
+      );
+    });
+
+    test('supports removal and serialization', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'wildcard');
+      const id = list.addPattern(new URLPattern({pathname: '/a/:id'}), 'id');
+      list.addPattern(new URLPattern({pathname: '/a/b'}), 'fixed');
+
+      assert.strictEqual(list.match('http://example.com/a/b')?.value, 'fixed');
+      list.removeValue('fixed');
+      assert.strictEqual(list.match('http://example.com/a/b')?.value, 'id');
+      list.removePattern(id);
+      assert.strictEqual(
+        list.match('http://example.com/a/b')?.value,
+        'wildcard',
+      );
+
+      const restored = URLPatternList.fromJSON<string>(
+        JSON.parse(JSON.stringify(list)),
+      );
+      assert.strictEqual(restored.order, 'specificity');
+      restored.addPattern(new URLPattern({pathname: '/a/c'}), 'c');
+      assert.strictEqual(restored.match('http://example.com/a/c')?.value, 'c');
+    });
+  });
+
+  suite('removeValue()', () => {
+    test('removes every pattern with the value', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a/:id'}), 'a');
+      list.addPattern(new URLPattern({pathname: '/b'}), 'b');
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'a');
+
+      assert.strictEqual(list.removeValue('a'), 2);
+      assert.strictEqual(list.removeValue('a'), 0);
+
+      assertSameMatches(list, [['/b', 'b']], ['/a/1', '/a/1/2', '/b']);
+    });
+  });
+
+  suite('wide trees', () => {
+    test('matches among many fixed siblings', () => {
+      const list = new URLPatternList<string>();
+      const patterns: Array<[string, string]> = [];
+      for (let i = 0; i < 400; i++) {
+        patterns.push([`/api/resource${i}/:id`, `resource${i}`]);
+      }
+      patterns.push(['/api/:name/:id', 'fallback']);
+      for (const [pathname, value] of patterns) {
+        list.addPattern(new URLPattern({pathname}), value);
+      }
+
+      assertSameMatches(list, patterns, [
+        '/api/resource0/1',
+        '/api/resource42/1',
+        '/api/resource399/1',
+        '/api/resource400/1',
+        '/api/resource4/1/2',
+        '/api/other/1',
+      ]);
+    });
+
+    test('matches fixed siblings that are prefixes of each other', () => {
+      const list = new URLPatternList<string>();
+      const patterns: Array<[string, string]> = [
+        ['/a:rest', 'a-rest'],
+        ['/ab', 'ab'],
+        ['/abc', 'abc'],
+        ['/a', 'a'],
+        ['/ab/:id', 'ab-id'],
+      ];
+      for (const [pathname, value] of patterns) {
+        list.addPattern(new URLPattern({pathname}), value);
+      }
+
+      assertSameMatches(list, patterns, [
+        '/a',
+        '/ab',
+        '/abc',
+        '/abcd',
+        '/ab/1',
+        '/b',
+      ]);
+    });
+
+    test('keeps the index up to date as children change', () => {
+      const list = new URLPatternList<string>();
+      const b = list.addPattern(new URLPattern({pathname: '/b'}), 'b');
+      list.addPattern(new URLPattern({pathname: '/a'}), 'a');
+      assert.strictEqual(list.match('http://example.com/b')?.value, 'b');
+
+      list.removePattern(b);
+      list.addPattern(new URLPattern({pathname: '/c'}), 'c');
+      assertSameMatches(
+        list,
+        [
+          ['/a', 'a'],
+          ['/c', 'c'],
+        ],
+        ['/a', '/b', '/c'],
+      );
+    });
+
+    test('indexes case-insensitive siblings separately', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/Docs'}), 'exact');
+      list.addPattern(
+        new URLPattern({pathname: '/docs'}, {ignoreCase: true}),
+        'any-case',
+        {ignoreCase: true},
+      );
+
+      assert.strictEqual(list.match('http://example.com/Docs')?.value, 'exact');
+      assert.strictEqual(
+        list.match('http://example.com/DOCS')?.value,
+        'any-case',
+      );
+    });
+  });
+
+  suite('optimize()', () => {
+    const countNodes = (node: {children: ReadonlyArray<unknown>}): number =>
+      1 +
+      node.children.reduce<number>(
+        (count, child) => count + countNodes(child as typeof node),
+        0,
+      );
+
+    test('merges fixed chains that do not branch', () => {
+      const list = new URLPatternList<string>();
+      const patterns: Array<[string, string]> = [
+        ['/v1/internal/admin/reports/daily', 'daily'],
+        ['/v1/internal/admin/reports/weekly', 'weekly'],
+        ['/v1/public/:id', 'public'],
+      ];
+      for (const [pathname, value] of patterns) {
+        list.addPattern(new URLPattern({pathname}), value);
+      }
+      assert.strictEqual(countNodes(list._treeRoot), 9);
+
+      list.optimize();
+
+      // root -> /v1 -> /internal/admin/reports -> /daily, /weekly
+      //             -> /public -> /:id
+      assert.strictEqual(countNodes(list._treeRoot), 7);
+      assertSameMatches(list, patterns, [
+        '/v1/internal/admin/reports/daily',
+        '/v1/internal/admin/reports/weekly',
+        '/v1/internal/admin/reports',
+        '/v1/internal/admin',
+        '/v1/public/1',
+      ]);
+    });
+
+    test('splits merged nodes when a pattern diverges partway', () => {
+      const list = new URLPatternList<string>();
+      const patterns: Array<[string, string]> = [
+        ['/v1/internal/admin/reports', 'reports'],
+      ];
+      list.addPattern(new URLPattern({pathname: patterns[0][0]}), 'reports');
+      list.optimize();
+      assert.strictEqual(countNodes(list._treeRoot), 2);
+
+      for (const [pathname, value] of [
+        ['/v1/internal/users', 'users'],
+        ['/v1/internal', 'internal'],
+        ['/v1/internal/admin/reports/:id', 'report'],
+      ] as const) {
+        patterns.push([pathname, value]);
+        list.addPattern(new URLPattern({pathname}), value);
+      }
+
+      // root -> /v1/internal -> /admin/reports -> /:id
+      //                      -> /users
+      assert.strictEqual(countNodes(list._treeRoot), 5);
+      assertSameMatches(list, patterns, [
+        '/v1/internal/admin/reports',
+        '/v1/internal/admin/reports/1',
+        '/v1/internal/users',
+        '/v1/internal',
+        '/v1/internal/admin',
+        '/v1',
+      ]);
+    });
+
+    test('does not merge across URL components or case sensitivity', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a', search: 'b'}), 'search');
+      list.addPattern(
+        // `/1` has no letters, so only `/D` is case-insensitive
+        new URLPattern({pathname: '/1/D'}, {ignoreCase: true}),
+        'ignore-case',
+        {ignoreCase: true},
+      );
+      list.optimize();
+
+      assert.strictEqual(countNodes(list._treeRoot), 5);
+      assert.strictEqual(list.match('http://example.com/a?b')?.value, 'search');
+      assert.strictEqual(
+        list.match('http://example.com/1/d')?.value,
+        'ignore-case',
+      );
+    });
+
+    test('serializes merged nodes', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a/b/c'}), 'abc');
+      list.optimize();
+
+      const restored = URLPatternList.fromJSON<string>(list.toJSON());
+      restored.addPattern(new URLPattern({pathname: '/a/d'}), 'ad');
+
+      assertSameMatches(
+        restored,
+        [
+          ['/a/b/c', 'abc'],
+          ['/a/d', 'ad'],
+        ],
+        ['/a/b/c', '/a/d', '/a/b'],
+      );
+    });
+  });
+
+  suite('compile()', () => {
+    test('compiles the tree again after patterns change', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      list.compile();
+      assertSameMatches(list, [['/users/:id', 'user']], ['/users/1', '/a']);
+
+      const posts = list.addPattern(
+        new URLPattern({pathname: '/posts/:id'}),
+        'post',
+      );
+      list.addPattern(new URLPattern({pathname: '/users/new'}), 'new-user');
+      assertSameMatches(
+        list,
+        [
+          ['/users/:id', 'user'],
+          ['/posts/:id', 'post'],
+          ['/users/new', 'new-user'],
+        ],
+        ['/users/1', '/users/new', '/posts/1', '/a'],
+      );
+
+      list.removePattern(posts);
+      assertSameMatches(
+        list,
+        [
+          ['/users/:id', 'user'],
+          ['/users/new', 'new-user'],
+        ],
+        ['/users/1', '/users/new', '/posts/1'],
+      );
+    });
+
+    test('matches all patterns with matchAll()', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'wildcard');
+      list.addPattern(new URLPattern({pathname: '/a/:id'}), 'param');
+      list.addPattern(new URLPattern({pathname: '/a/b'}), 'fixed');
+      list.addPattern(new URLPattern({pathname: '/c'}), 'other');
+      list.compile();
+
+      assert.deepStrictEqual(
+        [...list.matchAll('http://example.com/a/b')].map(({value}) => value),
+        ['wildcard', 'param', 'fixed'],
+      );
+    });
+
+    test('follows specificity order', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.compile();
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      list.addPattern(new URLPattern({pathname: '/users/new'}), 'new-user');
+
+      assert.strictEqual(
+        list.match('http://example.com/users/new')?.value,
+        'new-user',
+      );
+      assert.strictEqual(
+        list.match('http://example.com/users/1')?.value,
+        'user',
+      );
+    });
+
+    test('matches case-insensitive and full URL patterns', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(
+        new URLPattern({pathname: '/About'}, {ignoreCase: true}),
+        'about',
+        {ignoreCase: true},
+      );
+      list.addPattern(
+        new URLPattern('https://:sub.example.com/docs/(\\d+)\\?q=:q'),
+        'docs',
+      );
+      list.compile();
+
+      assert.strictEqual(
+        list.match('http://example.com/ABOUT')?.value,
+        'about',
+      );
+      assert.strictEqual(
+        list.match('https://api.example.com/docs/12?q=x')?.value,
+        'docs',
+      );
+      assert.strictEqual(
+        list.match('https://api.example.com/docs/x?q=x'),
+        null,
+      );
+    });
+
+    test('keeps the state of a match across re-entrant matches', () => {
+      const list = new URLPatternList<string>();
+      const nested: Array<string | undefined> = [];
+      list.addPattern({pathname: '/users/:id'}, 'user', {
+        params: {
+          id: (value) => {
+            nested.push(list.match({pathname: '/posts/1'})?.value);
+            throw new TypeError(`Rejected: ${value}`);
+          },
+        },
+      });
+      list.addPattern({pathname: '/posts/:id'}, 'post');
+      list.addPattern({pathname: '/users/*'}, 'users');
+      list.compile();
+
+      const match = list.match('https://example.com/users/1?q');
+      assert.strictEqual(match?.value, 'users');
+      assert.strictEqual(match.result.search.input, 'q');
+      assert.deepStrictEqual(
+        [...list.matchAll({pathname: '/users/1'})].map(({value}) => value),
+        ['users'],
+      );
+      assert.deepStrictEqual(nested, ['post', 'post']);
+    });
+  });
+
+  suite('explain()', () => {
+    test('traces visited nodes, pruned nodes and tested patterns', () => {
+      const list = new URLPatternList<string>();
+      const user = list.addPattern(
+        new URLPattern({pathname: '/users/:id'}),
+        'user',
+      );
+      list.addPattern(new URLPattern({pathname: '/users/*'}), 'users');
+      list.addPattern(new URLPattern({pathname: '/posts/*'}), 'posts');
+
+      const trace = list.explain('/users/42', 'http://example.com');
+
+      assert.deepStrictEqual(trace.components, [
+        {component: 'protocol', value: 'http'},
+        {component: 'hostname', value: 'example.com'},
+        {component: 'pathname', value: '/users/42'},
+      ]);
+      assert.strictEqual(trace.match?.value, 'user');
+      assert.strictEqual(trace.root.match, user);
+
+      // Fixed children are looked up by their text, so `/posts` isn't visited
+      assert.strictEqual(trace.root.steps[0].children.length, 1);
+      const [users] = trace.root.steps[0].children;
+      assert.strictEqual(users.label, '/users');
+      assert.strictEqual(users.pruned, false);
+
+      assert.strictEqual(users.steps.length, 1);
+      assert.strictEqual(users.steps[0].component, 'pathname');
+      assert.strictEqual(users.steps[0].position, '/users'.length);
+
+      const [id, wildcard] = users.steps[0].children;
+      assert.strictEqual(id.type, 'wildcard');
+      assert.strictEqual(id.label, '/:param');
+      assert.strictEqual(id.position, '/users'.length);
+      assert.deepStrictEqual(
+        id.steps.map(({position, tests}) => ({position, tests})),
+        [
+          {
+            position: '/users/42'.length,
+            tests: [{item: user, result: 'matched'}],
+          },
+        ],
+      );
+      assert.strictEqual(wildcard.label, '*');
+      assert.strictEqual(wildcard.pruned, true);
+    });
+
+    test('traces failed pattern tests', () => {
+      const list = new URLPatternList<string>();
+      // The tree doesn't check the `/` before the wildcard, so `/ab` reaches
+      // the pattern and fails `pattern.test()`
+      const files = list.addPattern(new URLPattern({pathname: '/a/*'}), 'a');
+
+      const trace = list.explain('http://example.com/ab');
+
+      assert.strictEqual(trace.match, null);
+      const tests: Array<[string, URLPatternListItem<string>, string]> = [];
+      const visit = (node: URLPatternListTraceNode<string>) => {
+        for (const step of node.steps) {
+          for (const {item, result} of step.tests) {
+            tests.push([node.label, item, result]);
+          }
+          step.children.forEach(visit);
+        }
+      };
+      visit(trace.root);
+      assert.deepStrictEqual(tests, [['*', files, 'failed']]);
+    });
+
+    test('returns the same match as match()', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a/:id'}), 'a');
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'wildcard');
+
+      for (const path of ['/a/1', '/a/1/2', '/b']) {
+        const url = new URL(path, 'http://example.com').toString();
+        assert.deepStrictEqual(list.explain(url).match, list.match(url), path);
+      }
+    });
+
+    test('returns the match of a mounted list', () => {
+      const users = new URLPatternList<string>();
+      users.addPattern({pathname: '/:id'}, 'user');
+      const list = new URLPatternList<string>();
+      list.mount({pathname: '/users'}, users);
+
+      const match = list.explain({pathname: '/users/1'}).match;
+      assert.strictEqual(match?.value, 'user');
+      assert.deepStrictEqual(match, list.match({pathname: '/users/1'}));
+    });
+
+    test('returns the match after a pattern whose params are rejected', () => {
+      const list = new URLPatternList<string>();
+      const id = list.addPattern({pathname: '/users/:id'}, 'id', {
+        params: {
+          id: (value) => {
+            if (!/^\d+$/.test(value)) {
+              throw new TypeError('Not an integer');
+            }
+            return Number(value);
+          },
+        },
+      });
+      list.addPattern({pathname: '/users/:name'}, 'name');
+
+      const trace = list.explain({pathname: '/users/ada'});
+      assert.strictEqual(trace.root.match, id);
+      assert.strictEqual(trace.match?.value, 'name');
+      assert.deepStrictEqual(trace.match, list.match({pathname: '/users/ada'}));
+    });
+  });
+
+  suite('buildURL()', () => {
+    test('builds a URL for a value', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      list.addPattern(new URLPattern({pathname: '/posts/:id'}), 'post');
+
+      assert.strictEqual(list.buildURL('user', {id: '42'}), '/users/42');
+      assert.strictEqual(list.buildURL('post', {id: '7'}), '/posts/7');
+    });
+
+    test('builds a URL for a handle', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/docs/:page'}), 'docs');
+      const legacy = list.addPattern(
+        new URLPattern({pathname: '/documentation/:page'}),
+        'docs',
+      );
+
+      assert.strictEqual(list.buildURL('docs', {page: 'a'}), '/docs/a');
+      assert.strictEqual(
+        list.buildURL(legacy, {page: 'a'}),
+        '/documentation/a',
+      );
+    });
+
+    test('uses the first pattern in specificity order', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'a');
+      list.addPattern(new URLPattern({pathname: '/a/:id'}), 'a');
+
+      assert.strictEqual(list.buildURL('a', {id: 'b', 0: 'c/d'}), '/a/b');
+    });
+
+    test('keeps the case of case-insensitive patterns', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(
+        new URLPattern({pathname: '/About/(Team|Jobs)'}, {ignoreCase: true}),
+        'about',
+        {ignoreCase: true},
+      );
+
+      assert.strictEqual(list.buildURL('about', {0: 'jobs'}), '/About/jobs');
+    });
+
+    test('builds URLs that match the pattern', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(
+        new URLPattern('https://:tenant.example.com/projects/:id(\\d+)'),
+        'project',
+      );
+
+      const url = list.buildURL('project', {tenant: 'acme', id: '12'});
+      assert.strictEqual(url, 'https://acme.example.com/projects/12');
+      assert.deepStrictEqual(list.match(url)?.result.pathname.groups, {
+        id: '12',
+      });
+    });
+
+    test('throws for unknown values', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a'}), 'a');
+
+      assert.throws(() => list.buildURL('b'), TypeError);
+    });
+  });
+
+  suite('findShadowedPatterns()', () => {
+    test('reports later patterns covered by earlier ones', () => {
+      const list = new URLPatternList<string>();
+      const user = list.addPattern(
+        new URLPattern({pathname: '/users/:id'}),
+        'user',
+      );
+      const newUser = list.addPattern(
+        new URLPattern({pathname: '/users/new'}),
+        'new-user',
+      );
+      const files = list.addPattern(
+        new URLPattern({pathname: '/files/*'}),
+        'files',
+      );
+      list.addPattern(new URLPattern({pathname: '/files'}), 'files-index');
+      const file = list.addPattern(
+        new URLPattern({pathname: '/files/:name'}),
+        'file',
+      );
+
+      assert.deepStrictEqual(list.findShadowedPatterns(), [
+        {item: newUser, shadowedBy: user},
+        {item: file, shadowedBy: files},
+      ]);
+    });
+
+    test('reports nothing when every pattern is reachable', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/users/new'}), 'new-user');
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      list.addPattern(new URLPattern({pathname: '/users/(\\d+)'}), 'digits');
+
+      assert.deepStrictEqual(list.findShadowedPatterns(), []);
+    });
+
+    test('follows specificity order', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      list.addPattern(new URLPattern({pathname: '/users/new'}), 'new-user');
+
+      assert.deepStrictEqual(list.findShadowedPatterns(), []);
+    });
+
+    test('works on restored lists', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'a');
+      list.addPattern(new URLPattern({pathname: '/a/b'}), 'b');
+      const restored = URLPatternList.fromJSON<string>(list.toJSON());
+
+      assert.deepStrictEqual(
+        restored
+          .findShadowedPatterns()
+          .map(({item, shadowedBy}) => [item.value, shadowedBy.value]),
+        [['b', 'a']],
+      );
+    });
+  });
+
+  suite('captureGroups', () => {
+    /**
+     * Counts calls to `URLPattern.prototype.exec()` while running `fn`.
+     */
+    const countExecs = (fn: () => void): number => {
+      const exec = URLPattern.prototype.exec;
+      let count = 0;
+      URLPattern.prototype.exec = function (this: URLPattern, ...args) {
+        count++;
+        return exec.apply(this, args);
+      };
+      try {
+        fn();
+      } finally {
+        URLPattern.prototype.exec = exec;
+      }
+      return count;
+    };
+
+    test('builds results without calling exec()', () => {
+      const list = new URLPatternList<string>({captureGroups: true});
+      const pattern = new URLPattern({pathname: '/users/:id/files/*'});
+      list.addPattern(pattern, 'file');
+      const url = 'http://example.com/users/42/files/a/b.txt';
+      const expected = pattern.exec(url);
+
+      let match: URLPatternListMatch<string> | null = null;
+      assert.strictEqual(
+        countExecs(() => (match = list.match(url))),
+        0,
+      );
+      assert.deepStrictEqual(match, {
+        result: expected,
+        value: 'file',
+        params: {id: '42'},
+      });
+
+      list.compile();
+      assert.strictEqual(
+        countExecs(() => (match = list.match(url))),
+        0,
+      );
+      assert.deepStrictEqual(match, {
+        result: expected,
+        value: 'file',
+        params: {id: '42'},
+      });
+    });
+
+    test('falls back to exec() for ambiguous patterns', () => {
+      const list = new URLPatternList<string>({captureGroups: true});
+      const pattern = new URLPattern({pathname: '/:a-:b'});
+      list.addPattern(pattern, 'ambiguous');
+      const url = 'http://example.com/x-y-z';
+
+      let match: URLPatternListMatch<string> | null = null;
+      assert.strictEqual(
+        countExecs(() => (match = list.match(url))),
+        1,
+      );
+      assert.deepStrictEqual(match, {
+        result: pattern.exec(url),
+        value: 'ambiguous',
+        params: {a: 'x', b: 'y-z'},
+      });
+    });
+
+    test('captures groups for every match of matchAll()', () => {
+      const list = new URLPatternList<string>({captureGroups: true});
+      list.addPattern(new URLPattern({pathname: '/a/*'}), 'wildcard');
+      list.addPattern(new URLPattern({pathname: '/a/:id'}), 'param');
+      list.addPattern(new URLPattern({pathname: '/a/:id?'}), 'optional');
+
+      const matches = [...list.matchAll('http://example.com/a/b')];
+      assert.deepStrictEqual(
+        matches.map(({value, result}) => [value, result.pathname.groups]),
+        [
+          ['wildcard', {0: 'b'}],
+          ['param', {id: 'b'}],
+          ['optional', {id: 'b'}],
+        ],
+      );
+    });
+
+    test('runs exec() to verify results with verifyCaptureGroups', () => {
+      const list = new URLPatternList<string>({
+        captureGroups: true,
+        verifyCaptureGroups: true,
+      });
+      const pattern = new URLPattern('https://:sub.example.com/a/:id');
+      list.addPattern(pattern, 'a');
+      const url = 'https://api.example.com/a/1';
+
+      let match: URLPatternListMatch<string> | null = null;
+      assert.strictEqual(
+        countExecs(() => (match = list.match(url))),
+        1,
+      );
+      assert.deepStrictEqual(match, {
+        result: pattern.exec(url),
+        value: 'a',
+        params: {sub: 'api', id: '1'},
+      });
+    });
+
+    test('throws when verifyCaptureGroups finds a difference', () => {
+      const list = new URLPatternList<string>({
+        captureGroups: true,
+        verifyCaptureGroups: true,
+      });
+      const pattern = new URLPattern({pathname: '/a/:id'});
+      list.addPattern(pattern, 'a');
+      const exec = pattern.exec.bind(pattern);
+      pattern.exec = (...args) => {
+        const result = exec(...args);
+        return result && {...result, pathname: {input: '', groups: {}}};
+      };
+
+      assert.throws(() => list.match({pathname: '/a/1'}), Error);
+    });
+  });
+
+  suite('result cache', () => {
+    test('returns cached results for repeated URLs', () => {
+      const list = new URLPatternList<string>({cacheSize: 2});
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+
+      const first = list.match('http://example.com/users/1');
+      assert.strictEqual(list.match('http://example.com/users/1'), first);
+      assert.strictEqual(
+        list.match(new URL('http://example.com/users/1')),
+        first,
+      );
+      assert.strictEqual(list.match('http://example.com/other'), null);
+      assert.strictEqual(list.match('http://example.com/other'), null);
+
+      assert.deepStrictEqual(list.cacheStats, {
+        capacity: 2,
+        size: 2,
+        hits: 3,
+        misses: 2,
+      });
+    });
+
+    test('keys results by base URL', () => {
+      const list = new URLPatternList<string>({cacheSize: 2});
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+
+      const withBase = list.match('/users/1', 'http://example.com');
+      const withoutBase = list.match('http://example.com/users/1');
+
+      assert.deepStrictEqual(withBase?.result.inputs, [
+        'http://example.com/users/1',
+        'http://example.com',
+      ]);
+      assert.deepStrictEqual(withoutBase?.result.inputs, [
+        'http://example.com/users/1',
+      ]);
+      assert.strictEqual(list.cacheStats.misses, 2);
+    });
+
+    test('is cleared when patterns are added or removed', () => {
+      const list = new URLPatternList<string>({cacheSize: 2});
+      const user = list.addPattern(
+        new URLPattern({pathname: '/users/:id'}),
+        'user',
+      );
+      assert.strictEqual(
+        list.match('http://example.com/users/new')?.value,
+        'user',
+      );
+
+      list.addPattern(new URLPattern({pathname: '/users/new'}), 'new-user');
+      list.removePattern(user);
+      assert.strictEqual(
+        list.match('http://example.com/users/new')?.value,
+        'new-user',
+      );
+      assert.strictEqual(list.match('http://example.com/users/1'), null);
+      assert.strictEqual(list.cacheStats.hits, 0);
+    });
+
+    test('is disabled by default', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/a'}), 'a');
+      list.match('http://example.com/a');
+
+      assert.deepStrictEqual(list.cacheStats, {
+        capacity: 0,
+        size: 0,
+        hits: 0,
+        misses: 0,
+      });
+    });
+  });
+
+  suite('addPatterns() and from()', () => {
+    const pathnames = [
+      '/users',
+      '/users/:id',
+      '/user/:id',
+      '/users/new',
+      '/files/*',
+      '/api/v1/items/(\\d+)',
+      '/api/v1/items/:name',
+      '/api/v2/items',
+    ];
+    const paths = [
+      '/users',
+      '/users/1',
+      '/user/1',
+      '/users/new',
+      '/files/a/b',
+      '/api/v1/items/12',
+      '/api/v1/items/x',
+      '/api/v2/items',
+      '/other',
+    ];
+
+    test('assigns the same sequences as addPattern()', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/first'}), 'first');
+      const items = list.addPatterns(
+        pathnames.map((pathname) => [new URLPattern({pathname}), pathname]),
+      );
+
+      assert.deepStrictEqual(
+        items.map(({sequence, value}) => [sequence, value]),
+        pathnames.map((pathname, i) => [i + 1, pathname]),
+      );
+      assertSameMatches(
+        list,
+        [
+          ['/first', 'first'],
+          ...pathnames.map((pathname): [string, string] => [
+            pathname,
+            pathname,
+          ]),
+        ],
+        ['/first', ...paths],
+      );
+    });
+
+    test('matches like the patterns were added one by one', () => {
+      const list = URLPatternList.from(
+        pathnames.map((pathname) => [new URLPattern({pathname}), pathname]),
+      );
+
+      assertSameMatches(
+        list,
+        pathnames.map((pathname) => [pathname, pathname]),
+        paths,
+      );
+    });
+
+    test('shares nodes with patterns already in the list', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      list.addPatterns([
+        [new URLPattern({pathname: '/users/:id/posts'}), 'posts'],
+        [new URLPattern({pathname: '/users/new'}), 'new-user'],
+      ]);
+      const expected = new URLPatternList<string>();
+      expected.addPattern(new URLPattern({pathname: '/users/:id'}), 'user');
+      expected.addPattern(
+        new URLPattern({pathname: '/users/:id/posts'}),
+        'posts',
+      );
+      expected.addPattern(new URLPattern({pathname: '/users/new'}), 'new-user');
+
+      assert.deepStrictEqual(list.serialize(), expected.serialize());
+    });
+
+    test('adds options and follows specificity order', () => {
+      const list = URLPatternList.from(
+        [
+          [new URLPattern({pathname: '/users/:id'}), 'user'],
+          [
+            new URLPattern({pathname: '/Users/New'}, {ignoreCase: true}),
+            'new-user',
+            {ignoreCase: true},
+          ],
+        ],
+        {order: 'specificity'},
+      );
+
+      assert.strictEqual(list.order, 'specificity');
+      assert.strictEqual(
+        list.match('http://example.com/users/NEW')?.value,
+        'new-user',
+      );
+      assert.strictEqual(
+        list.match('http://example.com/users/1')?.value,
+        'user',
+      );
+    });
+
+    test("doesn't add any pattern if one fails to parse", () => {
+      const list = new URLPatternList<string>();
+      const pattern = new URLPattern({pathname: '/a'});
+      Object.defineProperty(pattern, 'pathname', {value: '/b/(unclosed'});
+      assert.throws(() =>
+        list.addPatterns([
+          [new URLPattern({pathname: '/c'}), 'c'],
+          [pattern, 'b'],
+        ]),
+      );
+      assert.strictEqual(list.match('http://example.com/c'), null);
+    });
+  });
+
+  suite('pattern inputs', () => {
+    test('types items with the named groups of the pattern', () => {
+      const list = new URLPatternList<string>();
+      const item = list.addPattern({pathname: '/files/:dir/:name?'}, 'file');
+
+      const params: URLPatternListItemParams<typeof item> = {dir: 'docs'};
+      const dir: string = params.dir;
+      // @ts-expect-error name is optional
+      const name: string = params.name;
+      // @ts-expect-error there's no such group
+      params.nmae;
+      assert.deepStrictEqual({dir, name}, {dir: 'docs', name: undefined});
+      assert.deepStrictEqual(list.match({pathname: '/files/docs'})?.params, {
+        dir: 'docs',
+        name: undefined,
+      });
+    });
+
+    test('accepts pattern strings with a base URL', () => {
+      const list = new URLPatternList<string>();
+      const item = list.addPattern('/users/:id', 'user', {
+        baseURL: 'https://example.com',
+      });
+      list.addPattern('https://:sub.example.com/docs/*', 'docs');
+
+      assert.strictEqual(item.pattern.hostname, 'example.com');
+      assert.strictEqual(
+        list.match('https://example.com/users/1')?.value,
+        'user',
+      );
+      assert.strictEqual(list.match('https://other.com/users/1'), null);
+      assert.strictEqual(
+        list.match('https://api.example.com/docs/a/b')?.value,
+        'docs',
+      );
+    });
+
+    test('accepts URLPatternInit', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/posts/:id', search: 'draft'}, 'draft');
+
+      assert.deepStrictEqual(
+        list.match('http://example.com/posts/1?draft')?.result.pathname.groups,
+        {id: '1'},
+      );
+      assert.strictEqual(list.match('http://example.com/posts/1'), null);
+    });
+
+    test('constructs patterns with ignoreCase', () => {
+      const list = new URLPatternList<string>();
+      const item = list.addPattern({pathname: '/About'}, 'about', {
+        ignoreCase: true,
+      });
+
+      assert.strictEqual(item.ignoreCase, true);
+      assert.strictEqual(
+        list.match('http://example.com/ABOUT')?.value,
+        'about',
+      );
+    });
+
+    test('accepts inputs in addPatterns() and from()', () => {
+      const list = URLPatternList.from([
+        ['/a', 'a', {baseURL: 'http://example.com'}],
+        [{pathname: '/b'}, 'b'],
+        [new URLPattern({pathname: '/c'}), 'c'],
+      ]);
+
+      assert.deepStrictEqual(
+        ['/a', '/b', '/c'].map(
+          (path) => list.match(`http://example.com${path}`)?.value,
+        ),
+        ['a', 'b', 'c'],
+      );
+    });
+
+    test('throws for a base URL without a pattern string', () => {
+      const list = new URLPatternList<string>();
+
+      assert.throws(
+        () =>
+          list.addPattern({pathname: '/a'}, 'a', {
+            baseURL: 'http://example.com',
+          }),
+        TypeError,
+      );
+      assert.throws(
+        () =>
+          list.addPattern(new URLPattern({pathname: '/a'}), 'a', {
+            baseURL: 'http://example.com',
+          }),
+        TypeError,
+      );
+      assert.throws(() => list.addPattern('/a', 'a'), TypeError);
+    });
+  });
+
+  suite('URLPatternInit inputs', () => {
+    test('matches paths without a base URL', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/users/:id'}, 'user');
+
+      const match = list.match({pathname: '/users/1'});
+      assert.strictEqual(match?.value, 'user');
+      assert.deepStrictEqual(match?.result.pathname.groups, {id: '1'});
+      assert.throws(() => list.match('/users/1'), TypeError);
+    });
+
+    test('throws for a separate base URL', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/users/:id'}, 'user');
+
+      assert.throws(
+        () => list.match({pathname: '/users/1'}, 'https://example.com'),
+        TypeError,
+      );
+    });
+
+    test("isn't cached", () => {
+      const list = new URLPatternList<string>({cacheSize: 2});
+      list.addPattern({pathname: '/users/:id'}, 'user');
+      list.match({pathname: '/users/1'});
+      list.match({pathname: '/users/1'});
+
+      assert.deepStrictEqual(list.cacheStats, {
+        capacity: 2,
+        size: 0,
+        hits: 0,
+        misses: 0,
+      });
+    });
+
+    test('explains matches', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/users/:id'}, 'user');
+
+      const trace = list.explain({pathname: '/users/1'});
+      assert.deepStrictEqual(trace.components, [
+        {component: 'pathname', value: '/users/1'},
+      ]);
+      assert.strictEqual(trace.match?.value, 'user');
+    });
+  });
+
+  suite('matchPathname()', () => {
+    const createList = (options?: URLPatternListOptions) => {
+      const list = new URLPatternList<string>(options);
+      list.addPattern({pathname: '/users/:id'}, 'user');
+      list.addPattern({pathname: '/files/*'}, 'files');
+      list.addPattern({pathname: '/:page'}, 'page');
+      list.addPattern('https://example.com/admin', 'admin');
+      return list;
+    };
+
+    const pathnames = [
+      '/users/1',
+      '/files/a/b.txt',
+      '/about',
+      '/admin',
+      '/a b',
+      '/ü',
+      '/users/../files/x',
+      '/%2E%2e/users/2',
+      '/users\\3',
+      '/users/1?q#h',
+      'users/1',
+      '',
+    ];
+
+    for (const options of [{}, {captureGroups: true}]) {
+      test(`matches like match({pathname}) with ${JSON.stringify(options)}`, () => {
+        const list = createList(options);
+        for (const pathname of pathnames) {
+          const expected = list.match({pathname});
+          const actual = list.matchPathname(pathname);
+          assert.strictEqual(actual?.value, expected?.value, pathname);
+          assert.deepStrictEqual(
+            actual?.result.pathname,
+            expected?.result.pathname,
+            pathname,
+          );
+        }
+      });
+    }
+
+    test("doesn't parse canonical pathnames as URLs", () => {
+      const list = createList();
+      const {URL} = globalThis;
+      globalThis.URL = class extends URL {
+        constructor(url: string | URL, base?: string | URL) {
+          super(url, base);
+          assert.fail(`URL constructed for ${String(url)}`);
+        }
+      };
+      try {
+        assert.strictEqual(list.matchPathname('/users/1')?.value, 'user');
+        assert.strictEqual(list.matchPathname('/nope/nope'), null);
+      } finally {
+        globalThis.URL = URL;
+      }
+    });
+
+    test('caches results', () => {
+      const list = createList({cacheSize: 2});
+
+      const first = list.matchPathname('/users/1');
+      assert.strictEqual(list.matchPathname('/users/1'), first);
+      assert.strictEqual(
+        list.match('http://example.com/users/1')?.value,
+        'user',
+      );
+
+      assert.deepStrictEqual(list.cacheStats, {
+        capacity: 2,
+        size: 2,
+        hits: 1,
+        misses: 2,
+      });
+    });
+  });
+
+  suite('mount()', () => {
+    const createUsers = () => {
+      const users = new URLPatternList<string>();
+      users.addPattern({pathname: '/'}, 'users');
+      users.addPattern({pathname: '/:id'}, 'user');
+      return users;
+    };
+
+    test('matches the rest of the pathname in the mounted list', () => {
+      const list = new URLPatternList<string>();
+      list.mount({pathname: '/orgs/:org/users'}, createUsers());
+
+      const match = list.match('https://example.com/orgs/acme/users/1?q');
+      assert.strictEqual(match?.value, 'user');
+      assert.deepStrictEqual(match?.result.inputs, [
+        'https://example.com/orgs/acme/users/1?q',
+      ]);
+      assert.deepStrictEqual(match?.result.pathname, {
+        input: '/orgs/acme/users/1',
+        groups: {org: 'acme', id: '1'},
+      });
+      assert.strictEqual(match?.result.search.input, 'q');
+      assert.strictEqual(
+        list.match('https://example.com/orgs/acme/users')?.value,
+        'users',
+      );
+      assert.strictEqual(
+        list.match('https://example.com/orgs/acme/users/')?.value,
+        'users',
+      );
+      assert.strictEqual(
+        list.match('https://example.com/orgs/acme/usersx'),
+        null,
+      );
+      assert.strictEqual(
+        list.match('https://example.com/orgs/acme/users/1/2'),
+        null,
+      );
+    });
+
+    test('matches at the mount position in sequence order', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/api/users/me'}, 'me');
+      list.mount({pathname: '/api/users'}, createUsers());
+      list.addPattern({pathname: '/api/users/:id'}, 'shadowed');
+      list.addPattern({pathname: '/api/*'}, 'fallback');
+
+      assert.strictEqual(list.match({pathname: '/api/users/me'})?.value, 'me');
+      assert.strictEqual(list.match({pathname: '/api/users/1'})?.value, 'user');
+      assert.strictEqual(
+        list.match({pathname: '/api/users/1/2'})?.value,
+        'fallback',
+      );
+      assert.deepStrictEqual(
+        [...list.matchAll({pathname: '/api/users/1'})].map(({value}) => value),
+        ['user', 'shadowed', 'fallback'],
+      );
+      assert.strictEqual(list.matchPathname('/api/users/2')?.value, 'user');
+    });
+
+    test('mounts lists in mounted lists', () => {
+      const org = new URLPatternList<string>();
+      org.mount({pathname: '/users'}, createUsers());
+      const list = new URLPatternList<string>();
+      list.mount({pathname: '/orgs/:org'}, org);
+
+      const match = list.match({pathname: '/orgs/acme/users/1'});
+      assert.strictEqual(match?.value, 'user');
+      assert.deepStrictEqual(match?.result.pathname.groups, {
+        org: 'acme',
+        id: '1',
+      });
+    });
+
+    test('matches other components of the URL in the mounted list', () => {
+      const api = new URLPatternList<string>();
+      api.addPattern({protocol: 'https', pathname: '/:id'}, 'secure');
+      api.addPattern({pathname: '/:id'}, 'any');
+      const list = new URLPatternList<string>();
+      list.mount('https://:tenant.example.com/api', api);
+      list.mount({hostname: 'other.example.com'}, createUsers());
+
+      const match = list.match('https://acme.example.com/api/1');
+      assert.strictEqual(match?.value, 'secure');
+      assert.deepStrictEqual(match?.result.hostname.groups, {tenant: 'acme'});
+      assert.deepStrictEqual(match?.result.pathname.groups, {id: '1'});
+      assert.strictEqual(list.match('http://acme.example.com/api/1'), null);
+      assert.strictEqual(
+        list.match('https://other.example.com/1')?.value,
+        'user',
+      );
+    });
+
+    test('sees changes to the mounted list', () => {
+      const users = createUsers();
+      const list = new URLPatternList<string>({cacheSize: 4});
+      list.mount({pathname: '/users'}, users);
+
+      assert.strictEqual(list.match('http://example.com/users/1/posts'), null);
+      users.addPattern({pathname: '/:id/posts'}, 'posts');
+      assert.strictEqual(
+        list.match('http://example.com/users/1/posts')?.value,
+        'posts',
+      );
+    });
+
+    test('unmounts lists', () => {
+      const users = createUsers();
+      const list = new URLPatternList<string>({cacheSize: 4});
+      const mount = list.mount({pathname: '/users'}, users);
+
+      assert.strictEqual(
+        list.match('http://example.com/users/1')?.value,
+        'user',
+      );
+      assert.strictEqual(list.unmount(mount), true);
+      assert.strictEqual(list.match('http://example.com/users/1'), null);
+      assert.strictEqual(list.unmount(mount), false);
+    });
+
+    test('throws for lists mounted in themselves', () => {
+      const list = new URLPatternList<string>();
+      const child = new URLPatternList<string>();
+      list.mount({pathname: '/child'}, child);
+
+      assert.throws(() => list.mount({pathname: '/self'}, list), TypeError);
+      assert.throws(() => child.mount({pathname: '/parent'}, list), TypeError);
+    });
+
+    test('orders mounts by specificity in specificity order', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern({pathname: '/*'}, 'fallback');
+      list.mount({pathname: '/users'}, createUsers());
+      list.addPattern({pathname: '/users/me'}, 'me');
+
+      assert.strictEqual(list.match({pathname: '/users/me'})?.value, 'me');
+      assert.strictEqual(list.match({pathname: '/users/1'})?.value, 'user');
+      assert.strictEqual(list.match({pathname: '/other'})?.value, 'fallback');
+    });
+
+    test('serializes mounted lists', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/users/me'}, 'me');
+      list.mount({pathname: '/users'}, createUsers(), {ignoreCase: true});
+      list.addPattern({pathname: '/*'}, 'fallback');
+
+      const restored = URLPatternList.fromJSON<string>(
+        JSON.parse(JSON.stringify(list)),
+      );
+      assert.deepStrictEqual(restored.serialize(), list.serialize());
+      for (const pathname of ['/users/me', '/USERS/1', '/users/1/2']) {
+        assert.deepStrictEqual(
+          restored.match({pathname}),
+          list.match({pathname}),
+          pathname,
+        );
+      }
+    });
+  });
+
+  suite('addAll() and concat()', () => {
+    const createList = (pathnames: Array<string>) => {
+      const list = new URLPatternList<string>();
+      for (const pathname of pathnames) {
+        list.addPattern({pathname}, pathname);
+      }
+      return list;
+    };
+    const first = ['/users', '/users/:id', '/files/*'];
+    const second = ['/users/new', '/user/:id', '/api/v1/items/(\\d+)'];
+    const paths = [
+      '/users',
+      '/users/1',
+      '/users/new',
+      '/user/1',
+      '/files/a/b',
+      '/api/v1/items/12',
+      '/other',
+    ];
+
+    test('adds the patterns of another list after its own', () => {
+      const list = createList(first);
+      const items = list.addAll(createList(second));
+
+      assert.deepStrictEqual(
+        items.map(({sequence, value}) => [sequence, value]),
+        second.map((pathname, i) => [first.length + i, pathname]),
+      );
+      assertSameMatches(
+        list,
+        [...first, ...second].map((pathname): [string, string] => [
+          pathname,
+          pathname,
+        ]),
+        paths,
+      );
+    });
+
+    test('concatenates lists in order', () => {
+      const list = URLPatternList.concat(
+        createList(first),
+        createList(second),
+        createList(['/*']),
+      );
+
+      assertSameMatches(
+        list,
+        [...first, ...second, '/*'].map((pathname): [string, string] => [
+          pathname,
+          pathname,
+        ]),
+        paths,
+      );
+    });
+
+    test("doesn't change the other list", () => {
+      const other = createList(second);
+      const before = other.serialize();
+      const list = createList(first);
+      const [item] = list.addAll(other);
+
+      assert.strictEqual(list.removePattern(item!), true);
+      assert.deepStrictEqual(other.serialize(), before);
+      assert.strictEqual(
+        other.match('http://example.com/users/new')?.value,
+        '/users/new',
+      );
+    });
+
+    test('keeps options of the patterns', () => {
+      const other = new URLPatternList<string>();
+      other.addPattern({pathname: '/Users/:id'}, 'user', {ignoreCase: true});
+      const list = URLPatternList.concat(other);
+
+      assert.strictEqual(list.match({pathname: '/USERS/1'})?.value, 'user');
+      assert.deepStrictEqual(list.serialize(), other.serialize());
+    });
+
+    test('adds the patterns of restored lists', () => {
+      const other = URLPatternList.fromJSON<string>(
+        JSON.parse(JSON.stringify(createList(second))),
+      );
+      const list = createList(first);
+      list.addAll(other);
+
+      assertSameMatches(
+        list,
+        [...first, ...second].map((pathname): [string, string] => [
+          pathname,
+          pathname,
+        ]),
+        paths,
+      );
+    });
+
+    test('adds mounts at their position', () => {
+      const users = new URLPatternList<string>();
+      users.addPattern({pathname: '/:id'}, 'user');
+      const other = new URLPatternList<string>();
+      other.addPattern({pathname: '/users/me'}, 'me');
+      other.mount({pathname: '/users'}, users);
+      other.addPattern({pathname: '/users/:id'}, 'shadowed');
+      const list = URLPatternList.concat(other);
+
+      assert.deepStrictEqual(
+        [...list.matchAll({pathname: '/users/1'})].map(({value}) => value),
+        ['user', 'shadowed'],
+      );
+      assert.deepStrictEqual(list.serialize(), other.serialize());
+      assert.throws(() => users.addAll(list), TypeError);
+    });
+
+    test('orders the patterns by specificity in specificity order', () => {
+      const list = new URLPatternList<string>({order: 'specificity'});
+      list.addPattern({pathname: '/users/*'}, 'users');
+      list.addAll(createList(['/users/:id', '/users/new']));
+
+      assert.strictEqual(
+        list.match({pathname: '/users/new'})?.value,
+        '/users/new',
+      );
+      assert.strictEqual(
+        list.match({pathname: '/users/1'})?.value,
+        '/users/:id',
+      );
+      assert.strictEqual(list.match({pathname: '/users/1/2'})?.value, 'users');
+    });
+  });
+
+  suite('collection methods', () => {
+    const createList = (options?: URLPatternListOptions) => {
+      const list = new URLPatternList<string>(options);
+      list.addPattern({pathname: '/users/*'}, 'users');
+      list.addPattern({pathname: '/users/:id'}, 'user');
+      list.addPattern({pathname: '/users/new'}, 'new');
+      return list;
+    };
+
+    test('size counts the patterns', () => {
+      const list = createList();
+      assert.strictEqual(list.size, 3);
+
+      const [item] = list.addPatterns([[{pathname: '/a'}, 'a']]);
+      list.addPattern({pathname: '/b'}, 'a');
+      list.mount({pathname: '/mounted'}, createList());
+      assert.strictEqual(list.size, 5);
+
+      list.removePattern(item!);
+      list.removePattern(item!);
+      assert.strictEqual(list.size, 4);
+      assert.strictEqual(list.removeValue('a'), 1);
+      assert.strictEqual(list.size, 3);
+      assert.strictEqual(
+        URLPatternList.fromJSON(JSON.parse(JSON.stringify(list))).size,
+        3,
+      );
+      assert.strictEqual(list.clone().size, 3);
+      assert.strictEqual(new URLPatternList().size, 0);
+    });
+
+    test('iterates over patterns and values in match order', () => {
+      const list = createList();
+
+      assert.deepStrictEqual(
+        [...list].map(([pattern, value]) => [pattern.pathname, value]),
+        [
+          ['/users/*', 'users'],
+          ['/users/:id', 'user'],
+          ['/users/new', 'new'],
+        ],
+      );
+      assert.deepStrictEqual(
+        [...createList({order: 'specificity'}).entries()].map(
+          ([, value]) => value,
+        ),
+        ['new', 'user', 'users'],
+      );
+    });
+
+    test('entries can be added to another list', () => {
+      const list = createList();
+      const copy = URLPatternList.from(list);
+
+      assert.deepStrictEqual([...copy], [...list]);
+      assert.strictEqual(copy.match({pathname: '/users/1'})?.value, 'users');
+    });
+
+    test('has() compares the structure of patterns', () => {
+      const list = createList();
+      list.addPattern({pathname: '/Files/:name'}, 'file', {ignoreCase: true});
+
+      assert.strictEqual(list.has({pathname: '/users/:id'}), true);
+      assert.strictEqual(
+        list.has(new URLPattern({pathname: '/users/new'})),
+        true,
+      );
+      assert.strictEqual(list.has({pathname: '{/users}/:id'}), true);
+      assert.strictEqual(list.has('/users/:id', {baseURL: 'http://a'}), false);
+      assert.strictEqual(list.has({pathname: '/users/:userId'}), false);
+      assert.strictEqual(list.has({pathname: '/users'}), false);
+      assert.strictEqual(
+        list.has({pathname: '/files/:name'}, {ignoreCase: true}),
+        true,
+      );
+      assert.strictEqual(list.has({pathname: '/Files/:name'}), false);
+    });
+
+    test('clear() removes every pattern and mount', () => {
+      const users = createList();
+      const list = createList({cacheSize: 4});
+      const mount = list.mount({pathname: '/mounted'}, users);
+      list.compile();
+      assert.strictEqual(
+        list.match('http://example.com/users/1')?.value,
+        'users',
+      );
+
+      list.clear();
+      assert.strictEqual(list.size, 0);
+      assert.deepStrictEqual([...list], []);
+      assert.strictEqual(list.match('http://example.com/users/1'), null);
+      assert.strictEqual(
+        list.match('http://example.com/mounted/users/1'),
+        null,
+      );
+      assert.strictEqual(list.unmount(mount), false);
+
+      list.addPattern({pathname: '/a'}, 'a');
+      assert.strictEqual(list.addPattern({pathname: '/b'}, 'b').sequence, 1);
+      assert.strictEqual(list.match('http://example.com/b')?.value, 'b');
+      // The list can be mounted in the list it was mounted in before
+      users.mount({pathname: '/parent'}, list);
+    });
+
+    test('clone() copies the list', () => {
+      const list = createList({order: 'specificity', cacheSize: 4});
+      const item = list.addPattern({pathname: '/item'}, 'item');
+      const mounted = createList();
+      list.mount({pathname: '/mounted'}, mounted);
+      list.optimize();
+      const copy = list.clone();
+
+      assert.deepStrictEqual(copy.serialize(), list.serialize());
+      assert.strictEqual(copy.order, 'specificity');
+      assert.deepStrictEqual(copy.cacheStats.capacity, 4);
+      for (const pathname of [
+        '/users/new',
+        '/users/1',
+        '/users/1/2',
+        '/mounted/users/1',
+      ]) {
+        assert.deepStrictEqual(copy.match({pathname}), list.match({pathname}));
+      }
+
+      // Changes to either list don't affect the other
+      copy.addPattern({pathname: '/copy'}, 'copy');
+      list.removeValue('new');
+      mounted.addPattern({pathname: '/mounted-only'}, 'mounted-only');
+      assert.strictEqual(list.match({pathname: '/copy'}), null);
+      assert.strictEqual(copy.match({pathname: '/users/new'})?.value, 'new');
+      assert.strictEqual(copy.match({pathname: '/mounted/mounted-only'}), null);
+      assert.strictEqual(copy.removePattern(item), false);
+      assert.strictEqual(copy.match({pathname: '/item'})?.value, 'item');
+    });
+  });
+
+  suite('params option', () => {
+    const integer = (value: string) => {
+      if (!/^\d+$/.test(value)) {
+        throw new TypeError(`Not an integer: ${value}`);
+      }
+      return Number(value);
+    };
+
+    const createList = (options?: URLPatternListOptions) => {
+      const list = new URLPatternList<string>(options);
+      list.addPattern('https://:tenant.example.com/users/:id', 'user', {
+        params: {id: integer},
+      });
+      list.addPattern({pathname: '/users/:name'}, 'name');
+      return list;
+    };
+
+    test('decodes the named groups of matches', () => {
+      const match = createList().match('https://acme.example.com/users/42');
+
+      assert.strictEqual(match?.value, 'user');
+      assert.deepStrictEqual(match.params, {tenant: 'acme', id: 42});
+      assert.strictEqual(match.result.pathname.groups['id'], '42');
+    });
+
+    test('falls through to the next pattern when a decoder throws', () => {
+      for (const options of [
+        {},
+        {order: 'specificity'},
+        {captureGroups: true},
+        {cacheSize: 4},
+      ] satisfies Array<URLPatternListOptions>) {
+        const list = createList(options);
+        const url = 'https://acme.example.com/users/ada';
+
+        const match = list.match(url);
+        assert.strictEqual(match?.value, 'name');
+        assert.deepStrictEqual(match.params, {name: 'ada'});
+        assert.deepStrictEqual(
+          [...list.matchAll(url)].map(({value}) => value),
+          ['name'],
+        );
+        assert.strictEqual(list.matchPathname('/users/ada')?.value, 'name');
+        assert.strictEqual(list.match(url)?.value, 'name');
+      }
+
+      const compiled = createList();
+      compiled.compile();
+      assert.strictEqual(
+        compiled.match('https://acme.example.com/users/ada')?.value,
+        'name',
+      );
+      assert.strictEqual(
+        compiled.match('https://acme.example.com/users/1')?.value,
+        'user',
+      );
+    });
+
+    test('rejects values when built-in parsers throw', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/n/:n'}, 'bigint', {params: {n: BigInt}});
+      list.addPattern({pathname: '/n/:n'}, 'json', {params: {n: JSON.parse}});
+      list.addPattern({pathname: '/n/:n'}, 'uri', {
+        params: {n: decodeURIComponent},
+      });
+
+      assert.strictEqual(list.match({pathname: '/n/1'})?.value, 'bigint');
+      assert.strictEqual(list.match({pathname: '/n/true'})?.value, 'json');
+      assert.strictEqual(list.match({pathname: '/n/%C3%A9'})?.value, 'uri');
+      assert.strictEqual(list.match({pathname: '/n/%E0%A4%A'}), null);
+    });
+
+    test('types items with the decoded groups', () => {
+      const list = new URLPatternList<string>();
+      const item = list.addPattern({pathname: '/users/:id/:tab?'}, 'user', {
+        params: {id: (value) => Number(value)},
+      });
+
+      const params: URLPatternListItemParams<typeof item> = {id: 1};
+      const id: number = params.id;
+      // @ts-expect-error tab is optional
+      const tab: string = params.tab;
+      // @ts-expect-error there's no such group
+      params.ID;
+      assert.deepStrictEqual({id, tab}, {id: 1, tab: undefined});
+      assert.deepStrictEqual(list.match({pathname: '/users/1'})?.params, {
+        id: 1,
+        tab: undefined,
+      });
+    });
+
+    test("doesn't decode optional groups that don't match", () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/page{/:n}?'}, 'page', {
+        params: {n: integer},
+      });
+
+      assert.deepStrictEqual(list.match({pathname: '/page'})?.params, {
+        n: undefined,
+      });
+      assert.deepStrictEqual(list.match({pathname: '/page/2'})?.params, {
+        n: 2,
+      });
+    });
+
+    test('throws errors from decoders that are not rejections', () => {
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/users/:id'}, 'user', {
+        params: {
+          id: () => {
+            throw new Error('bug');
+          },
+        },
+      });
+      list.addPattern({pathname: '/users/:name'}, 'name');
+
+      assert.throws(() => list.match({pathname: '/users/1'}), /bug/);
+      assert.throws(() => [...list.matchAll({pathname: '/users/1'})], /bug/);
+    });
+
+    test('throws for decoders of groups the pattern does not have', () => {
+      const list = new URLPatternList<string>();
+
+      assert.throws(
+        () => list.addPattern('/users/:id', 'user', {params: {name: String}}),
+        TypeError,
+      );
+      assert.throws(
+        () =>
+          list.addPatterns([['/users/:id', 'user', {params: {name: String}}]]),
+        TypeError,
+      );
+      assert.strictEqual(list.size, 0);
+    });
+
+    test('is kept by addPatterns(), addAll(), clone() and mount()', () => {
+      const other = URLPatternList.from<string>([
+        [{pathname: '/users/:id'}, 'user', {params: {id: integer}}],
+        [{pathname: '/users/:name'}, 'name'],
+      ]);
+      const merged = URLPatternList.concat(other);
+      const parent = new URLPatternList<string>();
+      parent.mount({pathname: '/orgs/:org'}, other);
+
+      for (const list of [other, merged, other.clone()]) {
+        assert.deepStrictEqual(list.match({pathname: '/users/1'})?.params, {
+          id: 1,
+        });
+        assert.strictEqual(list.match({pathname: '/users/a'})?.value, 'name');
+      }
+      assert.deepStrictEqual(
+        parent.match({pathname: '/orgs/acme/users/1'})?.params,
+        {org: 'acme', id: 1},
+      );
+      assert.strictEqual(
+        parent.match({pathname: '/orgs/acme/users/a'})?.value,
+        'name',
+      );
+    });
+
+    test('is serialized with the encodeParams() of a codec', () => {
+      const schemas = {integerId: {id: integer}};
+      const list = new URLPatternList<string>();
+      list.addPattern({pathname: '/users/:id'}, 'user', {
+        params: schemas.integerId,
+      });
+
+      assert.throws(() => list.serialize(), TypeError);
+      const codec = {
+        encode: (value: string) => value,
+        decode: (data: unknown) => data as string,
+        encodeParams: (params: object) =>
+          Object.entries(schemas).find(([, schema]) => schema === params)![0],
+        decodeParams: (data: unknown) => schemas[data as keyof typeof schemas],
+      };
+      const serialized = list.serialize(codec);
+      assert.throws(() => URLPatternList.fromJSON(serialized), TypeError);
+
+      const restored = URLPatternList.fromJSON(serialized, codec);
+      assert.deepStrictEqual(restored.match({pathname: '/users/7'})?.params, {
+        id: 7,
+      });
+      assert.strictEqual(restored.match({pathname: '/users/a'}), null);
+    });
+  });
+});
@@ -227,8 +227,10 @@ export class URLPatternListVisualizer {
     }
 
     if (node instanceof FixedPrefixTreeNode) {
+      const flags = node.ignoreCase ? ' (ignoreCase)' : '';
+
       return {
-        label: `"${node.value}"`,
+        label: `"${node.value}"${flags}`,
         type: 'fixed',
         details: verbose
           ? `value: "${node.value}", ${node.patterns.length} patterns, ${node.children.length} children`
@@ -240,9 +242,10 @@ export class URLPatternListVisualizer {
       const modifierStr = this.#getModifierString(node.modifier);
       const prefixSuffix =
         node.prefix || node.suffix ? ` (${node.prefix}*${node.suffix})` : '';
+      const flags = node.ignoreCase ? ' (ignoreCase)' : '';
 
       return {
-        label: `:param${modifierStr}${prefixSuffix}`,
+        label: `:param${modifierStr}${prefixSuffix}${flags}`,
         type: 'wildcard',
         details: verbose
           ? `modifier: ${modifierStr}, prefix: "${node.prefix}", suffix: "${node.suffix}", ${node.patterns.length} patterns, ${node.children.length} children`
@@ -264,7 +267,7 @@ export class URLPatternListVisualizer {
 
     if (node instanceof RegexPrefixTreeNode) {
       return {
-        label: `/(${node.regexString})/`,
+        label: `/(${node.regexString})/${node.ignoreCase ? 'i' : ''}`,
         type: 'regex',
         details: verbose
           ? `regex: "${node.regexString}", ${node.patterns.length} patterns, ${node.children.length} children`